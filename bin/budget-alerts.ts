@@ -2,7 +2,7 @@
 import * as cdk from 'aws-cdk-lib';
 import { BudgetAlertsStack } from '../lib/budget-alerts-stack';
 import { loadBudgetConfig } from '../lib/org/budget-config-loader';
-import { loadOrgStructure } from '../lib/org/org-discovery';
+import { DEFAULT_SNAPSHOT_MAX_AGE_DAYS, loadOrgStructureFrom } from '../lib/org/org-snapshot';
 import { validateBudgetConfig } from '../lib/org/budget-planner';
 
 // const app = new cdk.App();
@@ -14,15 +14,26 @@ async function main() {
   const configPath =
     (app.node.tryGetContext('budgetConfigPath') as string | undefined) ?? 'budget-config.yaml';
 
-  const budgetConfig = loadBudgetConfig(configPath);
+  // With orgSnapshotPath, synth reads the organization from a file instead of the Organizations API
+  const snapshotPath = app.node.tryGetContext('orgSnapshotPath') as string | undefined;
+  const maxAgeDays = Number(
+    (app.node.tryGetContext('orgSnapshotMaxAgeDays') as string | number | undefined) ??
+      DEFAULT_SNAPSHOT_MAX_AGE_DAYS,
+  );
+  if (Number.isNaN(maxAgeDays)) {
+    throw new Error('Context orgSnapshotMaxAgeDays must be a number of days');
+  }
 
-  const org = await loadOrgStructure();
+  const org = await loadOrgStructureFrom({ snapshotPath, maxAgeDays });
   // Synthetic root node for the planner: parentId = null
 
-  // sanity: config must not reference unknown OUs
+  const budgetConfig = loadBudgetConfig(configPath, org);
+
+  // sanity: report all problems of the config before synthesis
   validateBudgetConfig(
     budgetConfig,
     org.ous.map((ou) => ou.id),
+    org.accounts,
   );
 
   new BudgetAlertsStack(app, 'BudgetAlertsStack', {
@@ -9,15 +9,35 @@ import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { resolve } from 'path';
 import * as YAML from 'yaml';
 import {
+  CURRENT_CONFIG_VERSION,
   DEFAULT_CURRENCY,
   type BudgetConfig,
   type OuBudgetConfigEntry,
 } from '../lib/org/budget-config';
-import { loadOrgStructure, type OrgRoot, type OuNode } from '../lib/org/org-discovery';
+import { readConfigFragments, resolveOuKey } from '../lib/org/budget-config-loader';
+import { migrateBudgetConfig } from '../lib/org/budget-config-migrations';
+import {
+  isInactiveAccount,
+  loadOrgStructure,
+  type AccountNode,
+  type OrgRoot,
+  type OrgStructure,
+  type OuNode,
+} from '../lib/org/org-discovery';
+import {
+  DEFAULT_SNAPSHOT_MAX_AGE_DAYS,
+  loadOrgStructureFrom,
+  writeOrgSnapshot,
+} from '../lib/org/org-snapshot';
 import log from 'loglevel';
 
 log.setLevel(log.levels.INFO);
 
+/**
+ * Lets editors with the YAML language server validate and autocomplete the config.
+ */
+const SCHEMA_PATH = './node_modules/@superluminar-io/budget-alerts/budget-config.schema.json';
+
 /**
  * Build a lookup map for OU metadata by ID, to use when adding comments.
  */
@@ -31,6 +51,18 @@ function indexOusById(ous: OuNode[]): Record<string, OuNode> {
   return map;
 }
 
+/**
+ * OU ID referenced by a config key (ID, path or name), or undefined if the key
+ * doesn't match any OU.
+ */
+function ouIdOfKey(key: string, org: OrgStructure): string | undefined {
+  try {
+    return resolveOuKey(key, org);
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Load an existing budget-config.yaml if present.
  */
@@ -40,17 +72,35 @@ function loadExistingConfig(path: string): BudgetConfig | null {
   return YAML.parse(raw) as BudgetConfig;
 }
 
+/**
+ * Keys of the OUs configured in files included by the config at `path`.
+ */
+function loadIncludedOuKeys(path: string): string[] {
+  if (!existsSync(path)) return [];
+  return readConfigFragments(path)
+    .slice(1)
+    .flatMap((fragment) =>
+      Object.keys((fragment.content as BudgetConfig | null)?.organizationalUnits ?? {}),
+    );
+}
+
 /**
  * Merge live OU list with an existing BudgetConfig:
  *
  * - For existing OUs: keep their amount/currency as-is.
  * - For new OUs: create entries with amount: null.
+ * - OUs configured in included files are left to those files.
  *
  * No OU metadata (names/parents) is stored in the config;
  * those are added later as YAML comments only.
  */
-function buildOrMergeConfig(ous: OuNode[], existing: BudgetConfig | null): BudgetConfig {
+function buildOrMergeConfig(
+  org: OrgStructure,
+  existing: BudgetConfig | null,
+  includedOuKeys: string[] = [],
+): BudgetConfig {
   const config = existing ?? {
+    version: CURRENT_CONFIG_VERSION,
     default: {
       amount: 100,
       currency: DEFAULT_CURRENCY,
@@ -60,8 +110,16 @@ function buildOrMergeConfig(ous: OuNode[], existing: BudgetConfig | null): Budge
 
   config.organizationalUnits ??= {};
 
-  for (const ou of ous) {
+  // OUs referenced by path or name already have an entry
+  const referencedIds = new Set(
+    Object.keys(config.organizationalUnits).map((key) => ouIdOfKey(key, org)),
+  );
+  const includedIds = new Set(includedOuKeys.map((key) => ouIdOfKey(key, org)));
+
+  for (const ou of org.ous) {
     if (!ou.id) continue;
+    if (referencedIds.has(ou.id) && !(ou.id in config.organizationalUnits)) continue;
+    if (includedIds.has(ou.id)) continue;
 
     const existingEntry = config.organizationalUnits[ou.id];
 
@@ -84,11 +142,15 @@ function buildOrMergeConfig(ous: OuNode[], existing: BudgetConfig | null): Budge
  * Remove config entries for OUs that are no longer present in the org,
  * but only if `prune` is true.
  */
-function pruneUnknownOus(config: BudgetConfig, knownOuIds: Set<string>, prune: boolean): void {
+function pruneUnknownOus(config: BudgetConfig, org: OrgStructure, prune: boolean): void {
   config.organizationalUnits ??= {};
   const allIds = Object.keys(config.organizationalUnits);
+  const knownOuIds = new Set(org.ous.map((o) => o.id));
 
-  const unknownIds = allIds.filter((id) => !knownOuIds.has(id));
+  const unknownIds = allIds.filter((key) => {
+    const ouId = ouIdOfKey(key, org);
+    return ouId === undefined || !knownOuIds.has(ouId);
+  });
 
   if (unknownIds.length === 0) {
     return;
@@ -125,8 +187,10 @@ function addOuCommentsToDocument(
   doc: YAML.Document.Parsed | YAML.Document,
   root: OrgRoot,
   ous: OuNode[],
+  accounts: AccountNode[] = [],
 ): void {
   const ouIndex = indexOusById(ous);
+  const org: OrgStructure = { root, ous };
 
   const top = doc.contents as any; // YAMLMap
   if (!top || typeof top.get !== 'function') return;
@@ -147,9 +211,8 @@ function addOuCommentsToDocument(
     if (typeof keyNode.value === 'undefined') continue;
 
     // eslint-disable-next-line @typescript-eslint/no-base-to-string
-    const ouId = String(keyNode.value);
-    const ouNode = ouIndex[ouId];
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    const ouId = ouIdOfKey(String(keyNode.value), org);
+    const ouNode = ouId ? ouIndex[ouId] : undefined;
     if (!ouNode) continue;
 
     const parent = ouNode.parentId ? ouIndex[ouNode.parentId] : undefined;
@@ -158,41 +221,223 @@ function addOuCommentsToDocument(
       ? `Parent: ${parent.name} (${parent.id}), Name: ${ouNode.name}`
       : `Parent: ROOT, Name: ${ouNode.name}`;
 
-    keyNode.comment = inlineComment;
+    keyNode.comment = inlineComment + accountCountComment(ouNode.id, accounts);
+  }
+}
+
+/**
+ * E.g. ", Accounts: 3 (1 inactive)" for the accounts directly in an OU.
+ */
+function accountCountComment(ouId: string, accounts: AccountNode[]): string {
+  const inOu = accounts.filter((account) => account.parentId === ouId);
+  if (inOu.length === 0) return '';
+  const inactive = inOu.filter(isInactiveAccount).length;
+  return `, Accounts: ${inOu.length}${inactive > 0 ? ` (${inactive} inactive)` : ''}`;
+}
+
+/**
+ * Attach informational comments (account name, email, OU, status) to the
+ * `accounts` map entries in the YAML document.
+ */
+function addAccountCommentsToDocument(
+  doc: YAML.Document.Parsed | YAML.Document,
+  org: OrgStructure,
+): void {
+  const top = doc.contents as any; // YAMLMap
+  if (!top || typeof top.get !== 'function') return;
+
+  const accountMap = top.get('accounts', true);
+  if (!accountMap || !Array.isArray(accountMap.items)) return;
+
+  const ouIndex = indexOusById(org.ous);
+
+  for (const item of accountMap.items as any[]) {
+    const keyNode = item.key as YAML.Scalar;
+    const account = org.accounts?.find((candidate) => candidate.id === String(keyNode.value));
+    if (!account) {
+      keyNode.comment = 'Not in the organization';
+      continue;
+    }
+
+    const parent = ouIndex[account.parentId] as OuNode | undefined;
+    const flags = [
+      ...(account.management ? ['MANAGEMENT ACCOUNT'] : []),
+      ...(isInactiveAccount(account) ? [account.status] : []),
+    ];
+    keyNode.comment = [
+      `Name: ${account.name}`,
+      `Email: ${account.email}`,
+      `OU: ${parent ? `${parent.name} (${parent.id})` : account.parentId}`,
+      ...flags,
+    ].join(', ');
   }
 }
 
+/**
+ * Line diff of two texts, showing removed and added lines with their line numbers.
+ */
+function diffLines(before: string, after: string): string[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push(`+${String(j + 1).padStart(4)} | ${b[j]}`);
+      j++;
+    } else {
+      lines.push(`-${String(i + 1).padStart(4)} | ${a[i]}`);
+      i++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Rewrite the config at `configPath` in the latest config version, keeping its
+ * comments, and print what changed.
+ */
+function migrateConfigFile(configPath: string): void {
+  if (!existsSync(configPath)) {
+    throw new Error(`Budget config file not found at ${configPath}`);
+  }
+  const before = readFileSync(configPath, 'utf8');
+  const doc = YAML.parseDocument(before);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid YAML in ${configPath}: ${doc.errors[0].message}`);
+  }
+  if (!YAML.isMap(doc.contents)) {
+    throw new Error(`Budget config ${configPath} is not a YAML mapping`);
+  }
+
+  const applied = migrateBudgetConfig(doc);
+  if (applied.length === 0) {
+    log.info(`${configPath} is already at config version ${CURRENT_CONFIG_VERSION}.`);
+    return;
+  }
+
+  // setIn appends new keys; version reads best at the top, below the leading comments
+  const items: YAML.Pair[] = doc.contents.items;
+  const versionIndex = items.findIndex(
+    (item) => (YAML.isScalar(item.key) ? item.key.value : item.key) === 'version',
+  );
+  if (versionIndex > 0) {
+    const [versionPair] = items.splice(versionIndex, 1);
+    const versionKey = doc.createNode('version');
+    const firstKey = items[0].key;
+    if (YAML.isScalar(firstKey)) {
+      versionKey.commentBefore = firstKey.commentBefore;
+      firstKey.commentBefore = null;
+    }
+    versionPair.key = versionKey;
+    items.unshift(versionPair);
+  }
+
+  const after = String(doc);
+  writeFileSync(configPath, after, 'utf8');
+  for (const description of applied) {
+    log.info(`Migrated ${description}`);
+  }
+  log.info(`--- ${configPath} (before)\n+++ ${configPath} (version ${CURRENT_CONFIG_VERSION})`);
+  log.info(diffLines(before, after).join('\n'));
+}
+
+/**
+ * Value of a `--name=value` option, or undefined if it isn't given.
+ */
+function optionValue(args: string[], name: string): string | undefined {
+  const prefix = `${name}=`;
+  return args.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * Discover the organization and save it for synth without Organizations credentials.
+ */
+async function writeSnapshotFile(snapshotPath: string): Promise<void> {
+  log.info('Querying AWS Organizations for OUs...');
+  const snapshot = writeOrgSnapshot(snapshotPath, await loadOrgStructure());
+  log.info(
+    `Written ${snapshot.ous.length} OUs under root ${snapshot.root.name} (${snapshot.root.id}) ` +
+      `to ${snapshotPath}`,
+  );
+}
+
 /**
  * CLI entrypoint:
  *
- *   ts-node tools/init-budget-config.ts [config-path]
+ *   ts-node tools/init-budget-config.ts [--prune] [--snapshot=org-snapshot.json]
+ *       [--snapshot-max-age-days=7]
+ *   ts-node tools/init-budget-config.ts migrate [config-path]
+ *   ts-node tools/init-budget-config.ts snapshot [snapshot-path]
  *
  * Default config path: ./budget-config.yaml
+ * Default snapshot path: ./org-snapshot.json
  */
 async function main() {
   const args = process.argv.slice(2);
+  if (args[0] === 'migrate') {
+    migrateConfigFile(resolve(args[1] ?? 'budget-config.yaml'));
+    return;
+  }
+  if (args[0] === 'snapshot') {
+    await writeSnapshotFile(resolve(args[1] ?? 'org-snapshot.json'));
+    return;
+  }
   const prune = args.includes('--prune');
+  const snapshotPath = optionValue(args, '--snapshot');
+  const maxAgeDays = Number(
+    optionValue(args, '--snapshot-max-age-days') ?? DEFAULT_SNAPSHOT_MAX_AGE_DAYS,
+  );
+  if (Number.isNaN(maxAgeDays)) {
+    throw new Error('--snapshot-max-age-days must be a number of days');
+  }
   log.info('Initializing budget config...');
   const configPath = resolve('budget-config.yaml');
 
   log.error(`Using config path: ${configPath}`);
 
-  log.error('Querying AWS Organizations for OUs...');
-  const { root, ous } = await loadOrgStructure();
+  log.error(
+    snapshotPath
+      ? `Reading OUs from organization snapshot ${snapshotPath}...`
+      : 'Querying AWS Organizations for OUs...',
+  );
+  const org = await loadOrgStructureFrom({ snapshotPath, maxAgeDays });
+  const { root, ous, accounts = [] } = org;
   log.error(`Found ${ous.length} OUs under root ${root.name} (${root.id}).`);
+  if (org.accounts) {
+    const management = accounts.find((account) => account.management);
+    log.error(
+      `Found ${accounts.length} accounts, ${accounts.filter(isInactiveAccount).length} inactive` +
+        (management ? `, management account ${management.name} (${management.id}).` : '.'),
+    );
+  }
 
   const existing = loadExistingConfig(configPath);
 
-  const knownOuIds = new Set(ous.map((o) => o.id));
   if (existing) {
-    pruneUnknownOus(existing, knownOuIds, prune);
+    pruneUnknownOus(existing, org, prune);
   }
-  const merged = buildOrMergeConfig(ous, existing);
+  const merged = buildOrMergeConfig(org, existing, loadIncludedOuKeys(configPath));
 
   const doc = new YAML.Document();
   doc.contents = doc.createNode(merged);
+  doc.commentBefore = ` yaml-language-server: $schema=${SCHEMA_PATH}`;
 
-  addOuCommentsToDocument(doc, root, ous);
+  addOuCommentsToDocument(doc, root, ous, accounts);
+  addAccountCommentsToDocument(doc, org);
 
   const yamlText = String(doc);
   writeFileSync(configPath, yamlText, 'utf8');
@@ -206,6 +451,7 @@ async function main() {
         app: 'npx budget-alerts',
         context: {
           budgetConfigPath: 'budget-config.yaml',
+          ...(snapshotPath ? { orgSnapshotPath: snapshotPath } : {}),
           '@aws-cdk/aws-lambda-nodejs:useLatestRuntimeVersion': true,
         },
       },
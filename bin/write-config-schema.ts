@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import * as prettier from 'prettier';
+import log from 'loglevel';
+import { BUDGET_CONFIG_SCHEMA } from '../lib/org/budget-config-schema';
+
+log.setLevel(log.levels.INFO);
+
+/**
+ * Write the JSON Schema of budget-config.yaml for editors:
+ *
+ *   npm run schema
+ */
+async function main() {
+  const schemaPath = resolve('budget-config.schema.json');
+  const options = await prettier.resolveConfig(schemaPath);
+  const json = await prettier.format(JSON.stringify(BUDGET_CONFIG_SCHEMA), {
+    ...options,
+    parser: 'json',
+  });
+  writeFileSync(schemaPath, json, 'utf8');
+  log.info(`Written budget config schema to ${schemaPath}`);
+}
+
+main().catch((err: unknown) => {
+  log.error(err);
+  process.exit(1);
+});
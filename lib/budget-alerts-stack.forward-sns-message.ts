@@ -1,7 +1,21 @@
 import { SNSClient, PublishCommand } from '@aws-sdk/client-sns';
+import {
+  ListParentsCommand,
+  type ListParentsCommandOutput,
+  OrganizationsClient,
+} from '@aws-sdk/client-organizations';
 import { type SQSEvent, type Context, type SQSRecord } from 'aws-lambda';
 
 const snsClient = new SNSClient({});
+const orgClient = new OrganizationsClient({});
+
+/**
+ * Route (OU or account ID) that was found for an account, cached across invocations.
+ * Entries expire, so accounts moved to another OU are routed by their new OU.
+ */
+const routeCache = new Map<string, { route: string | undefined; expiresAt: number }>();
+
+const ROUTE_CACHE_TTL_MS = 15 * 60 * 1000;
 
 import log from 'loglevel';
 
@@ -16,25 +30,66 @@ export async function handler(event: SQSEvent, _context: Context): Promise<void>
   log.debug('Received SQS event:', JSON.stringify(event, null, 2));
 
   const targetSnsTopicArn = process.env.TARGET_SNS_TOPIC_ARN;
+  // Inlined into the bundle at synth time, see BudgetAlertsStack
+  const routes = JSON.parse(process.env.TOPIC_ROUTES ?? '{}') as Partial<Record<string, string>>;
 
-  if (!targetSnsTopicArn) {
+  if (!targetSnsTopicArn && Object.keys(routes).length === 0) {
     throw new Error('TARGET_SNS_TOPIC_ARN environment variable is not set');
   }
 
   const promises = event.Records.map(async (record: SQSRecord) => {
     log.debug('Processing SQS record:', JSON.stringify(record, null, 2));
-    return forwardMessage(record.body, targetSnsTopicArn);
+    const route = await findRoute(record.body, routes);
+    const topicArn = route ? routes[route] : targetSnsTopicArn;
+    if (!topicArn) {
+      log.error('No target topic for message, dropping it:', record.body);
+      return;
+    }
+    return forwardMessage(record.body, topicArn);
   });
 
   try {
     await Promise.all(promises);
-    log.debug(`Successfully forwarded ${promises.length} message(s) to ${targetSnsTopicArn}`);
+    log.debug(`Successfully forwarded ${promises.length} message(s)`);
   } catch (error) {
     log.error('Error forwarding messages:', error);
     throw error;
   }
 }
 
+/**
+ * Find the route of the account that sent a budget notification: the account itself,
+ * or the closest OU above it. Budget notifications name the account in their text.
+ * @param message - raw budget notification
+ * @param routes - OU or account ID -> target topic ARN
+ */
+async function findRoute(
+  message: string,
+  routes: Partial<Record<string, string>>,
+): Promise<string | undefined> {
+  const accountId = /AWS Account (\d{12})/.exec(message)?.[1];
+  if (!accountId || Object.keys(routes).length === 0) {
+    return undefined;
+  }
+  const cached = routeCache.get(accountId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.route;
+  }
+
+  let route: string | undefined = accountId;
+  while (route && !routes[route]) {
+    const response: ListParentsCommandOutput = await orgClient.send(
+      new ListParentsCommand({ ChildId: route }),
+    );
+    const parent = response.Parents?.[0];
+    // The root has no parent to ask for
+    route = parent?.Type === 'ROOT' && !routes[parent.Id ?? ''] ? undefined : parent?.Id;
+  }
+
+  routeCache.set(accountId, { route, expiresAt: Date.now() + ROUTE_CACHE_TTL_MS });
+  return route;
+}
+
 /**
  * Forward a single SNS message to the target topic
  * @param record - SNS event record
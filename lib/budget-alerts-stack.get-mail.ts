@@ -1,11 +1,34 @@
-import { DescribeAccountCommand, OrganizationsClient } from '@aws-sdk/client-organizations';
+import {
+  AccountClient,
+  GetAlternateContactCommand,
+  ResourceNotFoundException,
+} from '@aws-sdk/client-account';
+import {
+  DescribeAccountCommand,
+  ListTagsForResourceCommand,
+  OrganizationsClient,
+} from '@aws-sdk/client-organizations';
 import log from 'loglevel';
+import {
+  type RecipientSource,
+  DEFAULT_RECIPIENT_SOURCES,
+  DEFAULT_RECIPIENT_TAG_KEY,
+  RECIPIENT_SOURCES,
+} from './org/budget-config';
 
 const org = new OrganizationsClient({});
+const accountManagement = new AccountClient({});
 
 interface OnEvent {
   RequestType: 'Create' | 'Update' | 'Delete';
-  ResourceProperties?: { AccountId?: string };
+  ResourceProperties?: {
+    AccountId?: string;
+    /**
+     * Resolution chain, e.g. ['BILLING_CONTACT', 'ACCOUNT_TAG', 'ROOT_EMAIL'].
+     */
+    RecipientSources?: string[];
+    RecipientTagKey?: string;
+  };
   PhysicalResourceId?: string;
 }
 
@@ -22,10 +45,86 @@ const getMail = async (
   return account.Account.Email;
 };
 
+const getBillingContactMail = async (
+  accountClient: AccountClient,
+  accountId: string,
+): Promise<string | undefined> => {
+  try {
+    const contact = await accountClient.send(
+      new GetAlternateContactCommand({ AccountId: accountId, AlternateContactType: 'BILLING' }),
+    );
+    return contact.AlternateContact?.EmailAddress;
+  } catch (err) {
+    // Thrown when the account has no billing contact
+    if (err instanceof ResourceNotFoundException) {
+      return undefined;
+    }
+    throw err;
+  }
+};
+
+const getTagMail = async (
+  organizationClient: OrganizationsClient,
+  accountId: string,
+  tagKey: string,
+): Promise<string | undefined> => {
+  const tags = await organizationClient.send(
+    new ListTagsForResourceCommand({ ResourceId: accountId }),
+  );
+  return tags.Tags?.find((tag) => tag.Key === tagKey)?.Value;
+};
+
+/**
+ * Check the resolution chain passed in the properties of the custom resource.
+ */
+const recipientSources = (configured: string[] | undefined): RecipientSource[] => {
+  if (!configured || configured.length === 0) {
+    return [...DEFAULT_RECIPIENT_SOURCES];
+  }
+  return configured.map((source) => {
+    if (!RECIPIENT_SOURCES.includes(source as RecipientSource)) {
+      throw new Error(`Unknown recipient source: ${source}`);
+    }
+    return source as RecipientSource;
+  });
+};
+
+/**
+ * Try the sources in order and return the first email address found, with its source.
+ */
+const resolveRecipient = async (
+  accountId: string,
+  sources: RecipientSource[],
+  tagKey: string,
+): Promise<{ email: string; source: RecipientSource }> => {
+  for (const source of sources) {
+    let email: string | undefined;
+    switch (source) {
+      case 'BILLING_CONTACT':
+        email = await getBillingContactMail(accountManagement, accountId);
+        break;
+      case 'ACCOUNT_TAG':
+        email = await getTagMail(org, accountId, tagKey);
+        break;
+      case 'ROOT_EMAIL':
+        email = await getMail(org, accountId);
+        break;
+    }
+    if (email) {
+      return { email, source };
+    }
+    log.info(`No recipient from ${source} for account ${accountId}`);
+  }
+  throw new Error(`Could not find a recipient email for account ID: ${accountId}`);
+};
+
 export const handler = async (
   event: OnEvent,
   ctx: unknown,
-): Promise<{ PhysicalResourceId: string; Data: { Email?: string } }> => {
+): Promise<{
+  PhysicalResourceId: string;
+  Data: { Email?: string; EmailSource?: RecipientSource };
+}> => {
   log.info('Context:', JSON.stringify(ctx, null, 2));
   if (event.RequestType === 'Delete') {
     return {
@@ -36,7 +135,14 @@ export const handler = async (
   if (!event.ResourceProperties?.AccountId) {
     throw new Error('AccountId is required in the event');
   }
-  const accountId = event.ResourceProperties.AccountId;
-  const email = await getMail(org, accountId);
-  return { PhysicalResourceId: `DescribeAccountEmail-${accountId}`, Data: { Email: email } };
+  const { AccountId: accountId, RecipientSources, RecipientTagKey } = event.ResourceProperties;
+  const { email, source } = await resolveRecipient(
+    accountId,
+    recipientSources(RecipientSources),
+    RecipientTagKey ?? DEFAULT_RECIPIENT_TAG_KEY,
+  );
+  return {
+    PhysicalResourceId: `DescribeAccountEmail-${accountId}`,
+    Data: { Email: email, EmailSource: source },
+  };
 };
@@ -2,6 +2,7 @@ import type { StackProps } from 'aws-cdk-lib';
 import {
   Arn,
   ArnFormat,
+  CfnOutput,
   CfnParameter,
   CustomResource,
   Stack,
@@ -32,10 +33,25 @@ import {
 import type { Construct } from 'constructs';
 import {
   computeOuBudgetAttachments,
+  type BudgetSettings,
   type OuBudgetAttachment,
   type OuNode,
 } from './org/budget-planner';
-import { type BudgetConfig } from './org/budget-config';
+import {
+  type BudgetActionConfig,
+  type BudgetConfig,
+  type BudgetFilter,
+  type CostTypes,
+  type PlannedBudgetLimits,
+  type RecipientSource,
+  type SubscriberConfig,
+  AUTO_AMOUNT,
+  DEFAULT_RECIPIENT_SOURCES,
+  DEFAULT_TIME_UNIT,
+  isPercentageBudgetType,
+  normalizeCostTypes,
+  normalizeThreshold,
+} from './org/budget-config';
 import { AwsCustomResource } from 'aws-cdk-lib/custom-resources';
 
 export interface BudgetAlertsStackProps extends StackProps {
@@ -63,6 +79,9 @@ export class BudgetAlertsStack extends Stack {
 
     const orgId = getOrgId.getResponseField('Organization.Id');
 
+    const recipientSources = props.budgetConfig.default.recipientSources ?? [
+      ...DEFAULT_RECIPIENT_SOURCES,
+    ];
     const getMailFn = new NodejsFunction(this, 'get-mail', {
       functionName: 'DescribeAccountEmailFn',
     });
@@ -82,6 +101,23 @@ export class BudgetAlertsStack extends Stack {
         resources: ['*'],
       }),
     );
+    if (recipientSources.includes('BILLING_CONTACT')) {
+      // Needs trusted access for AWS Account Management in the organization
+      getMailFn.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ['account:GetAlternateContact'],
+          resources: ['*'],
+        }),
+      );
+    }
+    if (recipientSources.includes('ACCOUNT_TAG')) {
+      getMailFn.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ['organizations:ListTagsForResource'],
+          resources: ['*'],
+        }),
+      );
+    }
     //
     // Allow CloudFormation from *your org* (or specific accounts) to invoke this Lambda
     const permissions = new lambda.CfnPermission(this, 'AllowOrgCfnInvoke', {
@@ -142,7 +178,17 @@ export class BudgetAlertsStack extends Stack {
     let notificationSettings: TopicSettings | undefined;
     let forwarder: lambdaNodejs.NodejsFunction | undefined;
 
-    if (props.budgetConfig.default.aggregationSnsTopicArn) {
+    const defaultTopicArn = props.budgetConfig.default.aggregationSnsTopicArn;
+    const topicArns = [
+      ...new Set(attachments.flatMap((attachment) => attachment.aggregationSnsTopicArn ?? [])),
+    ];
+    if (defaultTopicArn && !topicArns.includes(defaultTopicArn)) {
+      topicArns.push(defaultTopicArn);
+    }
+    const topicRoutes = topicRoutesOf(attachments, defaultTopicArn);
+    const needsRoutes = Object.keys(topicRoutes).length > 0;
+
+    if (topicArns.length > 0) {
       encryptionKey = new kms.Key(this, 'BudgetAggregationQueueKey', {
         enableKeyRotation: true,
         removalPolicy: RemovalPolicy.DESTROY,
@@ -241,8 +287,13 @@ export class BudgetAlertsStack extends Stack {
       forwarder = new lambdaNodejs.NodejsFunction(this, 'forward-sns-message', {
         functionName: 'ForwardBudgetAlertMessagesFn',
         environment: {
-          TARGET_SNS_TOPIC_ARN: props.budgetConfig.default.aggregationSnsTopicArn,
+          ...(defaultTopicArn ? { TARGET_SNS_TOPIC_ARN: defaultTopicArn } : {}),
         },
+        // Inlined into the bundle, since the routes of a large org don't fit the 4 KB
+        // of Lambda environment variables
+        bundling: needsRoutes
+          ? { define: { 'process.env.TOPIC_ROUTES': JSON.stringify(JSON.stringify(topicRoutes)) } }
+          : undefined,
       });
       forwarder.addEventSource(
         new eventSources.SqsEventSource(notificationQueue, {
@@ -252,9 +303,18 @@ export class BudgetAlertsStack extends Stack {
       forwarder.addToRolePolicy(
         new iam.PolicyStatement({
           actions: ['sns:Publish'],
-          resources: [props.budgetConfig.default.aggregationSnsTopicArn],
+          resources: topicArns,
         }),
       );
+      if (needsRoutes) {
+        // Routes are looked up by walking up from the source account to an attached OU
+        forwarder.addToRolePolicy(
+          new iam.PolicyStatement({
+            actions: ['organizations:ListParents'],
+            resources: ['*'],
+          }),
+        );
+      }
       forwarder.addToRolePolicy(
         new iam.PolicyStatement({
           actions: ['sns:ConfirmSubscription'],
@@ -276,23 +336,34 @@ export class BudgetAlertsStack extends Stack {
     // Attachments are already filtered for valid amounts in computeOuBudgetAttachments.
 
     attachments.forEach((attachment) => {
+      // Account-scoped attachments target the root OU and are narrowed down to the
+      // single account below; OU attachments skip accounts that have their own budget.
+      const attachmentId = attachment.accountId ?? attachment.ouId;
       const target = StackSetTarget.fromOrganizationalUnits({
         organizationalUnits: [attachment.ouId],
         regions: [this.region],
+        additionalAccounts: attachment.accountId ? [attachment.accountId] : undefined,
+        excludeAccounts: attachment.excludedAccountIds?.length
+          ? attachment.excludedAccountIds
+          : undefined,
       });
 
       const parameters = {
         BudgetAggregationQueueKeyArn: encryptionKey ? encryptionKey.keyArn : '',
       } as StackSetParameter;
-      const alertStackSet = new StackSet(this, `BudgetAlertStackSet-${attachment.ouId}`, {
+      const alertStackSet = new StackSet(this, `BudgetAlertStackSet-${attachmentId}`, {
         target,
         template: StackSetTemplate.fromStackSetStack(
-          new BudgetAlert(this, `BudgetAlertTemplate-${attachment.ouId}`, {
+          new BudgetAlert(this, `BudgetAlertTemplate-${attachmentId}`, {
             assetBuckets: [assetBucket],
             assetBucketPrefix: assetBucketPrefix,
             delegatedAdminAccountId: Stack.of(this).account,
             budget: attachment,
-            notificationSettings,
+            recipientSources: props.budgetConfig.default.recipientSources,
+            recipientTagKey: props.budgetConfig.default.recipientTagKey,
+            notificationSettings: attachment.aggregationSnsTopicArn
+              ? notificationSettings
+              : undefined,
           }),
         ),
         deploymentType: DeploymentType.serviceManaged(),
@@ -303,11 +374,19 @@ export class BudgetAlertsStack extends Stack {
         },
       });
       // need escape hatch here to set the concurrency mode
-      (alertStackSet.node.defaultChild as cfn.CfnStackSet).operationPreferences = {
+      const cfnStackSet = alertStackSet.node.defaultChild as cfn.CfnStackSet;
+      cfnStackSet.operationPreferences = {
         concurrencyMode: 'SOFT_FAILURE_TOLERANCE',
         maxConcurrentCount: 20,
         failureToleranceCount: 20,
       };
+      if (attachment.accountId) {
+        // cdk-stacksets renders additionalAccounts as UNION; we only want the account itself
+        cfnStackSet.addPropertyOverride(
+          'StackInstancesGroup.0.DeploymentTargets.AccountFilterType',
+          'INTERSECTION',
+        );
+      }
       alertStackSet.node.addDependency(assetBucket);
       alertStackSet.node.addDependency(permissions);
       alertStackSet.node.addDependency(subscribeProvider);
@@ -316,7 +395,7 @@ export class BudgetAlertsStack extends Stack {
       }
     });
 
-    if (props.budgetConfig.default.aggregationSnsTopicArn) {
+    if (topicArns.length > 0) {
       new iam.Role(this, 'BudgetSNSPublishRole', {
         assumedBy: new iam.OrganizationPrincipal(orgId),
         inlinePolicies: {
@@ -324,7 +403,7 @@ export class BudgetAlertsStack extends Stack {
             statements: [
               new iam.PolicyStatement({
                 actions: ['sns:Publish'],
-                resources: [props.budgetConfig.default.aggregationSnsTopicArn],
+                resources: topicArns,
               }),
             ],
           }),
@@ -341,6 +420,11 @@ export interface TopicSettings {
 export interface BudgetAlertProps extends StackSetStackProps {
   delegatedAdminAccountId: string;
   budget: OuBudgetAttachment;
+  /**
+   * Resolution chain of the account email. If unset, the lookup uses its defaults.
+   */
+  recipientSources?: RecipientSource[];
+  recipientTagKey?: string;
   notificationSettings?: TopicSettings;
 }
 
@@ -368,13 +452,20 @@ class BudgetAlert extends StackSetStack {
         arnFormat: ArnFormat.COLON_RESOURCE_NAME,
         partition: this.partition,
       }),
+      // The chain is part of the template, so that changing it updates deployed lookups
       properties: {
         AccountId: this.account, // asks for THIS account’s email
+        ...(props.recipientSources ? { RecipientSources: props.recipientSources } : {}),
+        ...(props.recipientTagKey ? { RecipientTagKey: props.recipientTagKey } : {}),
       },
     });
     const accountEmail = emailLookup.getAttString('Email');
+    new CfnOutput(this, 'AlertEmailSource', {
+      description: 'Where the email address of the budget alerts was found',
+      value: emailLookup.getAttString('EmailSource'),
+    });
 
-    const subscribers = [
+    const subscribers: budgets.CfnBudget.SubscriberProperty[] = [
       {
         subscriptionType: 'EMAIL',
         address: accountEmail,
@@ -435,33 +526,305 @@ class BudgetAlert extends StackSetStack {
       subscriber.node.addDependency(notificationTopic);
     }
 
-    new budgets.CfnBudget(this, 'MonthlyBudget', {
+    subscribers.push(...(props.budget.subscribers ?? []).map(toBudgetSubscriber));
+
+    // The logical ID predates configurable time units; keep it so existing budgets aren't replaced.
+    const mainBudget = new budgets.CfnBudget(
+      this,
+      'MonthlyBudget',
+      budgetProps(props.budget, subscribers),
+    );
+
+    const actions = props.budget.actions ?? [];
+    if (actions.length > 0) {
+      const executionRole = budgetActionExecutionRole(this, actions);
+      actions.forEach((action, index) => {
+        new budgets.CfnBudgetsAction(
+          this,
+          `BudgetAction${index}`,
+          budgetActionProps(action, mainBudget.ref, executionRole.roleArn, subscribers),
+        );
+      });
+    }
+
+    const namedBudgets = Object.entries(props.budget.budgets ?? {}).sort(([a], [b]) =>
+      a.localeCompare(b),
+    );
+    for (const [name, budget] of namedBudgets) {
+      new budgets.CfnBudget(this, `Budget-${name}`, budgetProps(budget, subscribers, name));
+    }
+  }
+}
+
+/**
+ * Attachment (OU or account ID) -> topic, for the alerts that don't go to the default topic.
+ * OU attachments cover disjoint subtrees, so the forwarder's walk from an account up to the
+ * closest listed OU only needs the OUs with another topic. The OU of an account isn't known
+ * here, so accounts are listed whenever an OU is, in case they are inside it.
+ */
+function topicRoutesOf(
+  attachments: OuBudgetAttachment[],
+  defaultTopicArn: string | undefined,
+): Record<string, string> {
+  const routes: Record<string, string> = {};
+  for (const { accountId, ouId, aggregationSnsTopicArn: topic } of attachments) {
+    if (!accountId && topic && topic !== defaultTopicArn) {
+      routes[ouId] = topic;
+    }
+  }
+  const hasOuRoutes = Object.keys(routes).length > 0;
+  for (const { accountId, aggregationSnsTopicArn: topic } of attachments) {
+    if (accountId && topic && (hasOuRoutes || topic !== defaultTopicArn)) {
+      routes[accountId] = topic;
+    }
+  }
+  return routes;
+}
+
+function budgetProps(
+  budget: BudgetSettings,
+  subscribers: budgets.CfnBudget.SubscriberProperty[],
+  budgetName?: string,
+): budgets.CfnBudgetProps {
+  const budgetType = budget.budgetType ?? 'COST';
+
+  if (isPercentageBudgetType(budgetType)) {
+    if (budget.amount === AUTO_AMOUNT) {
+      throw new Error(`Budget ${budgetName ?? 'main'}: ${budgetType} budgets need a fixed amount`);
+    }
+    // Utilization and coverage budgets have a fixed limit of 100% and alert when the target is missed.
+    return {
       budget: {
-        budgetType: 'COST',
-        timeUnit: 'MONTHLY',
-        budgetLimit: {
-          amount: props.budget.amount,
-          unit: props.budget.currency,
-        },
-        filterExpression: {
-          not: {
-            dimensions: {
-              key: 'RECORD_TYPE',
-              values: ['Credit'],
-            },
-          },
-        },
+        budgetName,
+        budgetType,
+        timeUnit: budget.timeUnit ?? DEFAULT_TIME_UNIT,
+        filterExpression: filterExpression(budget.filter, []),
       },
-      notificationsWithSubscribers:
-        props.budget.thresholds?.map((threshold) => ({
+      notificationsWithSubscribers: [
+        {
           notification: {
             notificationType: 'ACTUAL',
-            comparisonOperator: 'GREATER_THAN',
-            threshold: threshold,
+            comparisonOperator: 'LESS_THAN',
+            threshold: budget.amount,
             thresholdType: 'PERCENTAGE',
           },
           subscribers,
-        })) ?? [],
+        },
+      ],
+    };
+  }
+
+  const costTypes = normalizeCostTypes(budget.costTypes);
+  const isCost = budgetType === 'COST';
+  const unit = isCost ? budget.currency : budget.usageUnit;
+  if (!unit) {
+    throw new Error(`Budget ${budgetName ?? 'main'}: USAGE budgets need a usageUnit`);
+  }
+  return {
+    budget: {
+      budgetName,
+      budgetType,
+      timeUnit: budget.timeUnit ?? DEFAULT_TIME_UNIT,
+      ...budgetLimitProps(budget, unit, budgetName),
+      filterExpression: filterExpression(
+        budget.filter,
+        isCost ? excludedRecordTypes(costTypes) : [],
+      ),
+      metrics: !isCost || costTypes.metric === 'UnblendedCost' ? undefined : [costTypes.metric],
+    },
+    notificationsWithSubscribers:
+      budget.thresholds?.map(normalizeThreshold).map((threshold) => ({
+        notification: {
+          notificationType: threshold.notificationType,
+          comparisonOperator: 'GREATER_THAN',
+          threshold: threshold.value,
+          thresholdType: threshold.thresholdType,
+        },
+        subscribers: [...subscribers, ...threshold.subscribers.map(toBudgetSubscriber)],
+      })) ?? [],
+  };
+}
+
+function toBudgetSubscriber(subscriber: SubscriberConfig): budgets.CfnBudget.SubscriberProperty {
+  return subscriber.email
+    ? { subscriptionType: 'EMAIL', address: subscriber.email }
+    : { subscriptionType: 'SNS', address: subscriber.snsTopicArn ?? '' };
+}
+
+/**
+ * Auto-adjusting budgets get their limit from AWS, based on the average of past periods.
+ * Planned budgets replace the flat limit with one limit per month.
+ */
+function budgetLimitProps(
+  budget: BudgetSettings,
+  unit: string,
+  budgetName?: string,
+): Pick<
+  budgets.CfnBudget.BudgetDataProperty,
+  'budgetLimit' | 'autoAdjustData' | 'plannedBudgetLimits'
+> {
+  // The planner only lets planned limits through on MONTHLY budgets
+  if (budget.plannedBudgetLimits && budget.amount !== AUTO_AMOUNT) {
+    return {
+      plannedBudgetLimits: plannedLimits(budget.amount, budget.plannedBudgetLimits, unit),
+    };
+  }
+  if (budget.amount !== AUTO_AMOUNT) {
+    return { budgetLimit: { amount: budget.amount, unit } };
+  }
+  if (budget.lookbackPeriods === undefined) {
+    throw new Error(`Budget ${budgetName ?? 'main'}: amount auto needs lookbackPeriods`);
+  }
+  return {
+    autoAdjustData: {
+      autoAdjustType: 'HISTORICAL',
+      historicalOptions: { budgetAdjustmentPeriod: budget.lookbackPeriods },
+    },
+  };
+}
+
+/**
+ * AWS expects the twelve months starting with the current one, keyed by their start in
+ * epoch seconds. The window moves with every deployment; unplanned months use the flat amount.
+ */
+function plannedLimits(
+  amount: number,
+  planned: PlannedBudgetLimits,
+  unit: string,
+): Record<string, { Amount: number; Unit: string }> {
+  const now = new Date(Date.now());
+  const limits: Record<string, { Amount: number; Unit: string }> = {};
+  for (let i = 0; i < 12; i++) {
+    const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + i, 1);
+    const month = new Date(start).toISOString().slice(0, 7);
+    limits[String(start / 1000)] = { Amount: planned[month] ?? amount, Unit: unit };
+  }
+  return limits;
+}
+
+/**
+ * Role assumed by AWS Budgets to run the actions, allowed to do exactly what the actions need.
+ */
+function budgetActionExecutionRole(scope: Construct, actions: BudgetActionConfig[]): iam.Role {
+  const role = new iam.Role(scope, 'BudgetActionExecutionRole', {
+    assumedBy: new iam.ServicePrincipal('budgets.amazonaws.com'),
+  });
+  if (actions.some((action) => action.applyIamPolicy)) {
+    role.addToPolicy(
+      new iam.PolicyStatement({
+        actions: [
+          'iam:AttachGroupPolicy',
+          'iam:AttachRolePolicy',
+          'iam:AttachUserPolicy',
+          'iam:DetachGroupPolicy',
+          'iam:DetachRolePolicy',
+          'iam:DetachUserPolicy',
+        ],
+        resources: ['*'],
+      }),
+    );
+  }
+  if (actions.some((action) => action.stopInstances)) {
+    role.addManagedPolicy(
+      iam.ManagedPolicy.fromAwsManagedPolicyName(
+        'AWSBudgetsActions_RolePolicyForResourceAdministrationWithSSM',
+      ),
+    );
+  }
+  return role;
+}
+
+function budgetActionProps(
+  action: BudgetActionConfig,
+  budgetName: string,
+  executionRoleArn: string,
+  subscribers: budgets.CfnBudget.SubscriberProperty[],
+): budgets.CfnBudgetsActionProps {
+  const threshold = normalizeThreshold(action.threshold);
+  return {
+    budgetName,
+    actionThreshold: { type: threshold.thresholdType, value: threshold.value },
+    notificationType: threshold.notificationType,
+    approvalModel: action.requireApproval ? 'MANUAL' : 'AUTOMATIC',
+    executionRoleArn,
+    ...budgetActionDefinition(action),
+    subscribers: subscribers.map((subscriber) => ({
+      type: subscriber.subscriptionType,
+      address: subscriber.address,
+    })),
+  };
+}
+
+function budgetActionDefinition(
+  action: BudgetActionConfig,
+): Pick<budgets.CfnBudgetsActionProps, 'actionType' | 'definition'> {
+  if (action.applyIamPolicy) {
+    const { policyArn, roles, groups, users } = action.applyIamPolicy;
+    return {
+      actionType: 'APPLY_IAM_POLICY',
+      definition: { iamActionDefinition: { policyArn, roles, groups, users } },
+    };
+  }
+  if (action.stopInstances) {
+    const { service, region, instanceIds } = action.stopInstances;
+    return {
+      actionType: 'RUN_SSM_DOCUMENTS',
+      definition: {
+        ssmActionDefinition: { subtype: `STOP_${service}_INSTANCES`, region, instanceIds },
+      },
+    };
+  }
+  throw new Error('Budget actions need applyIamPolicy or stopInstances');
+}
+
+function excludedRecordTypes(costTypes: Required<CostTypes>): string[] {
+  return [
+    ...(costTypes.includeCredit ? [] : ['Credit']),
+    ...(costTypes.includeRefund ? [] : ['Refund']),
+    ...(costTypes.includeTax ? [] : ['Tax']),
+    ...(costTypes.includeSupport ? [] : ['Support']),
+    ...(costTypes.includeUpfront ? [] : ['Fee', 'SavingsPlanUpfrontFee']),
+  ];
+}
+
+/**
+ * Map a budget filter and the excluded record types onto the Budgets expression model.
+ */
+function filterExpression(
+  filter: BudgetFilter | undefined,
+  excludedRecordTypes: string[],
+): budgets.CfnBudget.ExpressionProperty | undefined {
+  const expressions: budgets.CfnBudget.ExpressionProperty[] = [];
+
+  if (excludedRecordTypes.length > 0) {
+    expressions.push({
+      not: {
+        dimensions: {
+          key: 'RECORD_TYPE',
+          values: excludedRecordTypes,
+        },
+      },
     });
   }
+
+  const dimensions: [string, string[] | undefined][] = [
+    ['SERVICE', filter?.services],
+    ['REGION', filter?.regions],
+    ['USAGE_TYPE', filter?.usageTypes],
+  ];
+  for (const [key, values] of dimensions) {
+    if (values) {
+      expressions.push({ dimensions: { key, values } });
+    }
+  }
+  for (const [key, values] of Object.entries(filter?.tags ?? {})) {
+    if (values) {
+      expressions.push({ tags: { key, values } });
+    }
+  }
+
+  if (expressions.length <= 1) {
+    return expressions[0];
+  }
+  return { and: expressions };
 }
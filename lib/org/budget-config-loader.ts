@@ -1,125 +1,401 @@
 // lib/org/budget-config-loader.ts
 
-import { existsSync, readFileSync } from 'fs';
-import { resolve } from 'path';
-import { parse as yamlParse } from 'yaml';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import {
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  LineCounter,
+  parseDocument,
+  parse as yamlParse,
+} from 'yaml';
+import log from 'loglevel';
 import {
   DEFAULT_CURRENCY,
   DEFAULT_THRESHOLDS,
   DISABLED_CURRENCY,
   type BudgetConfig,
   type NullableSome,
+  type OuBudgetConfigEntry,
 } from './budget-config';
+import { migrateBudgetConfig, plainConfig } from './budget-config-migrations';
+import { type ConfigIssue, formatConfigPath, validateConfigSchema } from './budget-config-schema';
+import type { OrgStructure } from './org-discovery';
 
+/**
+ * Structural check of a parsed config, see validateConfigSchema for the issues.
+ */
 function isNullableBudgetConfig(
   value: unknown,
 ): value is NullableSome<BudgetConfig, 'organizationalUnits' | 'default'> {
-  if (value === null || typeof value !== 'object') {
+  return validateConfigSchema(value).length === 0;
+}
+
+function isBudgetConfig(value: unknown): value is BudgetConfig {
+  if (!isNullableBudgetConfig(value)) {
     return false;
   }
 
-  //
-  // Step 0: Ensure at least one of `organizationalUnits` or `default` exists
-  //
-  if (!('organizationalUnits' in value) && !('default' in value)) {
+  if (value.default === null) {
     return false;
   }
 
-  // return false if default and organizationalUnits are both null or undefined
-  if (
-    (!('default' in value) || !(value as Record<string, unknown>).default) &&
-    (!('organizationalUnits' in value) || !(value as Record<string, unknown>).organizationalUnits)
-  ) {
-    return false;
+  return true;
+}
+
+/**
+ * The fields of an entry on top of those of its profile, recursively. `amount: null`,
+ * as written by budget:init, keeps the amount of the profile.
+ */
+function withProfile(
+  entry: Partial<OuBudgetConfigEntry>,
+  profiles: BudgetConfig['profiles'],
+  referencedBy: string,
+  chain: string[] = [],
+): Partial<OuBudgetConfigEntry> {
+  const { profile: name, ...fields } = entry;
+  if (name === undefined) {
+    return entry;
+  }
+  if (chain.includes(name)) {
+    throw new Error(`Circular profile reference: ${[...chain, name].join(' -> ')}`);
+  }
+  const profile = profiles?.[name];
+  if (!profile) {
+    throw new Error(`Unknown profile "${name}" referenced by ${referencedBy}`);
   }
+  if (fields.amount === null) {
+    delete fields.amount;
+  }
+  return { ...withProfile(profile, profiles, `profile ${name}`, [...chain, name]), ...fields };
+}
 
-  //
-  // Step 1: Check `default` exists and is an object
-  //
-  if ('default' in value && value.default) {
-    const def = (value as Record<string, unknown>).default;
-    if (typeof def !== 'object' || def === null) {
-      return false;
+/**
+ * Replace the profile references of OU, account and rule entries by the fields of the profile.
+ */
+function expandProfiles(
+  config: NullableSome<BudgetConfig, 'default' | 'organizationalUnits' | 'accounts'>,
+): void {
+  const { profiles } = config;
+  const expand = (entry: OuBudgetConfigEntry, referencedBy: string) =>
+    withProfile(entry, profiles, referencedBy) as OuBudgetConfigEntry;
+  for (const [kind, entries] of [
+    ['OU', config.organizationalUnits],
+    ['Account', config.accounts],
+  ] as const) {
+    if (!entries) {
+      continue;
     }
-    //
-    // Step 2: Validate default.amount
-    //
-    const amount = (def as Record<string, unknown>).amount;
-    if (amount && typeof amount !== 'number') {
-      return false;
+    for (const [id, entry] of Object.entries(entries)) {
+      if (entry) {
+        entries[id] = expand(entry, `${kind} ${id}`);
+      }
+    }
+  }
+  (config.rules ?? []).forEach((rule, index) => {
+    rule.budget = expand(rule.budget, `rule ${rule.name ?? `rules[${index}]`}`);
+  });
+}
+
+// Currency and thresholds of entries are left unset, so that they can be inherited.
+function sanitizeEntries(entries: Partial<Record<string, OuBudgetConfigEntry>>): void {
+  for (const [id, entry] of Object.entries(entries)) {
+    if (!entry || entry.off === true) {
+      entries[id] = {
+        off: true,
+        amount: null,
+      };
     }
+  }
+}
+
+export function sanitizeBudgetConfig(
+  config: NullableSome<BudgetConfig, 'default' | 'organizationalUnits' | 'accounts'>,
+): BudgetConfig {
+  const sanitized = { ...config, default: config.default ?? { currency: DISABLED_CURRENCY } };
+  sanitized.default.thresholds ??= DEFAULT_THRESHOLDS;
+  sanitized.default.currency ??= DEFAULT_CURRENCY;
+  expandProfiles(sanitized);
+  // loop over organizationalUnits and accounts and fill in missing fields
+  if (sanitized.organizationalUnits) {
+    sanitizeEntries(sanitized.organizationalUnits);
+  }
+  if (sanitized.accounts) {
+    sanitizeEntries(sanitized.accounts);
+  }
+  if (isBudgetConfig(sanitized)) {
+    return sanitized;
+  }
+  throw new Error('Invalid budget config structure');
+}
+
+const OU_NAME_PREFIX = 'name:';
 
-    //
-    // Step 3: Validate default.currency
-    //
-    const currency = (def as Record<string, unknown>).currency;
-    if (typeof currency !== 'string') {
-      return false;
+/**
+ * Resolve an organizationalUnits key to an OU ID. Keys are either OU IDs, paths of
+ * OU names below the root (e.g. "/Workloads/Prod", "/" is the root) or a unique
+ * OU name (e.g. "name: Sandbox"). IDs are returned as-is.
+ */
+export function resolveOuKey(key: string, org: OrgStructure): string {
+  if (key.startsWith('/')) {
+    let ouId = org.root.id;
+    for (const name of key.split('/').filter((segment) => segment !== '')) {
+      const children = org.ous.filter((ou) => ou.parentId === ouId && ou.name === name);
+      if (children.length === 0) {
+        throw new Error(`Unknown OU path in budget config: ${key}`);
+      }
+      if (children.length > 1) {
+        throw new Error(`Ambiguous OU path in budget config: ${key}`);
+      }
+      ouId = children[0].id;
     }
+    return ouId;
+  }
 
-    //
-    //Step 4: Validate default.aggregationSnsTopicArn
-    //
-    const snsTopicArn = (def as Record<string, unknown>).aggregationSnsTopicArn;
-    if (snsTopicArn && typeof snsTopicArn !== 'string') {
-      return false;
+  if (key.startsWith(OU_NAME_PREFIX)) {
+    const name = key.slice(OU_NAME_PREFIX.length).trim();
+    const matches = org.ous.filter((ou) => ou.name === name);
+    if (matches.length === 0) {
+      throw new Error(`Unknown OU name in budget config: ${name}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `Ambiguous OU name in budget config: ${name} ` +
+          `(${matches.map((ou) => ou.id).join(', ')}), use a path or ID instead`,
+      );
     }
+    return matches[0].id;
   }
 
-  //
-  // Step 4: Validate organizationalUnits exists and is an object
-  //
-  if ('organizationalUnits' in value) {
-    const ous = (value as Record<string, unknown>).organizationalUnits;
-    if (ous && typeof ous !== 'object') {
-      return false;
+  return key;
+}
+
+/**
+ * Replace the path and name keys of organizationalUnits with OU IDs, so the rest
+ * of the planner only deals with IDs. If the fragments the config was merged from
+ * are given, an OU configured under two keys is reported with both files and lines.
+ */
+export function resolveOuReferences(
+  config: BudgetConfig,
+  org: OrgStructure,
+  fragments: ConfigFragment[] = [],
+): BudgetConfig {
+  if (!config.organizationalUnits) {
+    return config;
+  }
+
+  const keyWithSource = (key: string): string => {
+    const path = ['organizationalUnits', key];
+    const fragment = fragments.find((f) => locate(f.raw, path)?.depth === path.length);
+    return fragment ? `${key} (${sourceOf(fragment, path)})` : key;
+  };
+
+  const resolved: Partial<Record<string, OuBudgetConfigEntry>> = {};
+  const keysById = new Map<string, string>();
+  for (const [key, entry] of Object.entries(config.organizationalUnits)) {
+    const ouId = resolveOuKey(key, org);
+    const otherKey = keysById.get(ouId);
+    if (otherKey !== undefined) {
+      throw new Error(
+        `OU ${ouId} is configured twice in budget config: ` +
+          `${keyWithSource(otherKey)} and ${keyWithSource(key)}`,
+      );
     }
+    keysById.set(ouId, key);
+    resolved[ouId] = entry;
   }
 
-  //
-  // Step 5: Validate sns topic arn in default
-  //
+  return { ...config, organizationalUnits: resolved };
+}
 
-  // We intentionally do not validate entries here
-  return true;
+/**
+ * A config file as read from disk. The raw text is kept to report line numbers.
+ */
+export interface ConfigFragment {
+  path: string;
+  raw: string;
+  content: unknown;
 }
 
-function isBudgetConfig(value: unknown): value is BudgetConfig {
-  if (!isNullableBudgetConfig(value)) {
-    return false;
+/**
+ * Sections whose entries may be spread over several files, with the name used in errors.
+ */
+const MERGED_SECTIONS: Partial<Record<string, string>> = {
+  organizationalUnits: 'OU',
+  accounts: 'Account',
+};
+
+function readConfigFile(fullPath: string): ConfigFragment {
+  const raw = readFileSync(fullPath, 'utf8');
+  try {
+    return { path: fullPath, raw, content: yamlParse(raw) };
+  } catch (err) {
+    throw new Error(`Failed to parse budget config YAML at ${fullPath}`, { cause: err });
   }
+}
 
-  if (value.default === null) {
-    return false;
+function includesOf(fragment: ConfigFragment): string[] {
+  const { content } = fragment;
+  if (content === null || typeof content !== 'object' || !('include' in content)) {
+    return [];
   }
+  const include = (content as Record<string, unknown>).include;
+  const paths = typeof include === 'string' ? [include] : include;
+  if (!Array.isArray(paths) || !paths.every((path) => typeof path === 'string')) {
+    throw new Error(`Invalid include in ${fragment.path}: expected a path or a list of paths`);
+  }
+  return paths;
+}
 
-  return true;
+/**
+ * Read a config file and, depth-first, all files it includes. Included directories
+ * contribute their *.yaml and *.yml files in alphabetical order.
+ */
+export function readConfigFragments(fullPath: string, seen = new Set<string>()): ConfigFragment[] {
+  if (seen.has(fullPath)) {
+    throw new Error(`Budget config file ${fullPath} is included more than once`);
+  }
+  seen.add(fullPath);
+
+  const fragment = readConfigFile(fullPath);
+  const fragments = [fragment];
+  for (const include of includesOf(fragment)) {
+    const target = resolve(dirname(fullPath), include);
+    if (!existsSync(target)) {
+      throw new Error(`Budget config file not found at ${target}, included from ${fullPath}`);
+    }
+    const files = statSync(target).isDirectory()
+      ? readdirSync(target)
+          .filter((file) => /\.ya?ml$/.test(file))
+          .sort()
+          .map((file) => join(target, file))
+      : [target];
+    for (const file of files) {
+      fragments.push(...readConfigFragments(file, seen));
+    }
+  }
+  return fragments;
 }
 
-export function sanitizeBudgetConfig(
-  config: NullableSome<BudgetConfig, 'default' | 'organizationalUnits'>,
-): BudgetConfig {
-  const sanitized = { ...config, default: config.default ?? { currency: DISABLED_CURRENCY } };
-  sanitized.default.thresholds ??= DEFAULT_THRESHOLDS;
-  sanitized.default.currency ??= DEFAULT_CURRENCY;
-  // loop over organizationalUnits and fill in missing fields
-  if (sanitized.organizationalUnits) {
-    for (const [ouId, entry] of Object.entries(sanitized.organizationalUnits)) {
-      if (!entry || entry.off === true) {
-        sanitized.organizationalUnits[ouId] = {
-          off: true,
-          amount: null,
-        };
+interface YamlPosition {
+  line: number;
+  col: number;
+  /**
+   * Number of path elements found; the position is that of the last one found.
+   */
+  depth: number;
+}
+
+/**
+ * Position of the key (or list item) at `path` in a YAML document, or of its
+ * deepest ancestor that exists.
+ */
+function locate(raw: string, path: (string | number)[]): YamlPosition | undefined {
+  const lineCounter = new LineCounter();
+  let node: unknown = parseDocument(raw, { lineCounter }).contents;
+  let found: YamlPosition | undefined;
+  for (const [index, key] of path.entries()) {
+    let offset: number | undefined;
+    if (isMap(node)) {
+      const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === key);
+      offset = isScalar(pair?.key) ? pair.key.range?.[0] : undefined;
+      node = pair?.value;
+    } else if (isSeq(node) && typeof key === 'number') {
+      node = node.items[key];
+      offset = isNode(node) ? node.range?.[0] : undefined;
+    }
+    if (offset === undefined) {
+      break;
+    }
+    found = { ...lineCounter.linePos(offset), depth: index + 1 };
+  }
+  return found;
+}
+
+function sourceOf(fragment: ConfigFragment, path: string[]): string {
+  const position = locate(fragment.raw, path);
+  return position?.depth === path.length ? `${fragment.path}:${position.line}` : fragment.path;
+}
+
+/**
+ * Render an issue with the file, line and column of the offending key. Merged configs
+ * point to the fragment that holds the deepest part of the path.
+ */
+function formatIssue(issue: ConfigIssue, fragments: ConfigFragment[]): string {
+  let best: { fragment: ConfigFragment; position: YamlPosition } | undefined;
+  for (const fragment of fragments) {
+    const position = locate(fragment.raw, issue.path);
+    if (position && position.depth > (best?.position.depth ?? 0)) {
+      best = { fragment, position };
+    }
+  }
+  const where = best ? ` (${best.fragment.path}:${best.position.line}:${best.position.col})` : '';
+  return `${formatConfigPath(issue.path)}${where}: ${issue.message}`;
+}
+
+/**
+ * Merge config fragments into one config:
+ * - organizationalUnits and accounts are merged; an OU or account may only be defined once.
+ * - rules are concatenated in the order the files were read.
+ * - every other section, e.g. default, may only be defined in one file.
+ */
+export function mergeConfigFragments(fragments: ConfigFragment[]): unknown {
+  if (fragments.length === 1) {
+    const { content } = fragments[0];
+    if (content === null || typeof content !== 'object' || !('include' in content)) {
+      return content;
+    }
+  }
+
+  const merged: Record<string, unknown> = {};
+  // section (or section + key) -> fragment that defined it
+  const origins = new Map<string, ConfigFragment>();
+  const claim = (what: string, path: string[], fragment: ConfigFragment) => {
+    const id = JSON.stringify(path);
+    const other = origins.get(id);
+    if (other) {
+      throw new Error(
+        `${what} is defined in both ${sourceOf(other, path)} and ${sourceOf(fragment, path)}`,
+      );
+    }
+    origins.set(id, fragment);
+  };
+
+  for (const fragment of fragments) {
+    const { content } = fragment;
+    if (content === null || content === undefined) {
+      continue; // empty file
+    }
+    if (typeof content !== 'object' || Array.isArray(content)) {
+      throw new Error(`Budget config at ${fragment.path} is not a YAML mapping`);
+    }
+    for (const [section, value] of Object.entries(content as Record<string, unknown>)) {
+      if (section === 'include' || value === null || value === undefined) {
+        continue;
+      }
+      if (section === 'rules' && Array.isArray(value)) {
+        merged.rules = [
+          ...((merged.rules as unknown[] | undefined) ?? []),
+          ...(value as unknown[]),
+        ];
         continue;
       }
-      entry.thresholds ??= DEFAULT_THRESHOLDS;
-      entry.currency ??= DEFAULT_CURRENCY;
+      const kind = MERGED_SECTIONS[section];
+      if (kind && typeof value === 'object' && !Array.isArray(value)) {
+        const entries = (merged[section] ??= {}) as Record<string, unknown>;
+        for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+          claim(`${kind} ${key}`, [section, key], fragment);
+          entries[key] = entry;
+        }
+        continue;
+      }
+      claim(`"${section}"`, [section], fragment);
+      merged[section] = value;
     }
   }
-  if (isBudgetConfig(sanitized)) {
-    return sanitized;
-  }
-  throw new Error('Invalid budget config structure');
+  return merged;
 }
 
 /**
@@ -127,8 +403,14 @@ export function sanitizeBudgetConfig(
  *
  * - `configPath` is relative to the project root (CDK usually runs with cwd = root).
  * - Fails fast with a clear error if file is missing or malformed.
+ * - Files listed in `include` are merged into the config, see mergeConfigFragments.
+ * - Configs of older versions are migrated in memory, see migrateBudgetConfig.
+ * - If `org` is given, OUs referenced by path or name are resolved to their IDs.
  */
-export function loadBudgetConfig(configPath = 'budget-config.yaml'): BudgetConfig {
+export function loadBudgetConfig(
+  configPath = 'budget-config.yaml',
+  org?: OrgStructure,
+): BudgetConfig {
   const fullPath = resolve(configPath);
 
   if (!existsSync(fullPath)) {
@@ -138,20 +420,26 @@ export function loadBudgetConfig(configPath = 'budget-config.yaml'): BudgetConfi
     );
   }
 
-  const raw = readFileSync(fullPath, 'utf8');
-  let parsed: unknown;
-  try {
-    parsed = yamlParse(raw);
-  } catch (err) {
-    throw new Error(`Failed to parse budget config YAML at ${fullPath}`, {cause: err});
+  const fragments = readConfigFragments(fullPath);
+  const parsed = mergeConfigFragments(fragments);
+  if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const applied = migrateBudgetConfig(plainConfig(parsed as Record<string, unknown>));
+    if (applied.length > 0) {
+      log.warn(
+        `Budget config ${fullPath} uses an older format and was upgraded in memory ` +
+          `(${applied.join('; ')}). Run "npx budget-alerts-init-config migrate" to upgrade the file.`,
+      );
+    }
   }
 
   if (!isNullableBudgetConfig(parsed)) {
+    const issues = validateConfigSchema(parsed);
     throw new Error(
-      `Invalid budget config structure in ${fullPath}. ` +
-        `Check "default" and "organizationalUnits" blocks.`,
+      `Invalid budget config structure in ${fullPath}:\n` +
+        issues.map((issue) => `  - ${formatIssue(issue, fragments)}`).join('\n'),
     );
   }
 
-  return sanitizeBudgetConfig(parsed);
+  const config = sanitizeBudgetConfig(parsed);
+  return org ? resolveOuReferences(config, org, fragments) : config;
 }
@@ -0,0 +1,96 @@
+// lib/org/budget-config-migrations.ts
+
+import { CURRENT_CONFIG_VERSION } from './budget-config';
+
+/**
+ * The parts of a config a migration may read and change. yaml's Document implements
+ * it, so that rewriting a file keeps its comments; plainConfig wraps parsed configs.
+ */
+export interface MigratableConfig {
+  hasIn(path: readonly unknown[]): boolean;
+  getIn(path: readonly unknown[]): unknown;
+  setIn(path: readonly unknown[], value: unknown): void;
+}
+
+interface ConfigMigration {
+  /**
+   * Version the migration upgrades from, to version + 1.
+   */
+  from: number;
+  description: string;
+  migrate(config: MigratableConfig): void;
+}
+
+/**
+ * One migration per version, in order. Configs without a version are version 1.
+ */
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 1,
+    description:
+      'OUs with their own amount took unset fields from default, not from their parent: ' +
+      'set inheritFields: false to keep that',
+    migrate(config) {
+      if (!config.hasIn(['inheritFields'])) {
+        config.setIn(['inheritFields'], false);
+      }
+    },
+  },
+];
+
+function childOf(value: unknown, key: unknown): unknown {
+  return value !== null && typeof value === 'object'
+    ? (value as Record<string, unknown>)[String(key)]
+    : undefined;
+}
+
+/**
+ * MigratableConfig on top of a parsed config. Changes are made in place.
+ */
+export function plainConfig(config: Record<string, unknown>): MigratableConfig {
+  const parentOf = (path: readonly unknown[]) =>
+    path.slice(0, -1).reduce<unknown>((value, key) => childOf(value, key), config);
+  return {
+    hasIn: (path) => {
+      const parent = parentOf(path);
+      return parent !== null && typeof parent === 'object' && String(path.at(-1)) in parent;
+    },
+    getIn: (path) => path.reduce<unknown>((value, key) => childOf(value, key), config),
+    setIn: (path, value) => {
+      let parent: Record<string, unknown> = config;
+      for (const key of path.slice(0, -1)) {
+        const child = parent[String(key)];
+        parent = (
+          child !== null && typeof child === 'object' ? child : (parent[String(key)] = {})
+        ) as Record<string, unknown>;
+      }
+      parent[String(path.at(-1))] = value;
+    },
+  };
+}
+
+/**
+ * Upgrade a config to CURRENT_CONFIG_VERSION and return what was changed.
+ * Configs written for a newer version of budget-alerts are rejected; invalid
+ * versions are left to the schema validation.
+ */
+export function migrateBudgetConfig(config: MigratableConfig): string[] {
+  const version = config.getIn(['version']) ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return [];
+  }
+  if (version > CURRENT_CONFIG_VERSION) {
+    throw new Error(
+      `Budget config version ${version} is newer than the latest version ` +
+        `${CURRENT_CONFIG_VERSION} this budget-alerts supports. Upgrade budget-alerts.`,
+    );
+  }
+  const applied = MIGRATIONS.filter((migration) => migration.from >= version).map((migration) => {
+    migration.migrate(config);
+    return `version ${migration.from} -> ${migration.from + 1}: ${migration.description}`;
+  });
+  if (applied.length > 0) {
+    config.setIn(['version'], CURRENT_CONFIG_VERSION);
+  }
+  return applied;
+}
@@ -0,0 +1,492 @@
+// lib/org/budget-config-schema.ts
+
+import {
+  AUTO_AMOUNT,
+  BUDGET_TYPES,
+  COST_METRICS,
+  NOTIFICATION_TYPES,
+  PLANNED_MONTH_PATTERN,
+  RECIPIENT_SOURCES,
+  RELATIVE_AMOUNT_PATTERN,
+  STOPPABLE_SERVICES,
+  THRESHOLD_TYPES,
+  TIME_UNITS,
+} from './budget-config';
+
+/**
+ * The subset of JSON Schema used for the budget config. `errorMessage` replaces
+ * the generated "expected ..." text, like the ajv-errors keyword of the same name.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: readonly unknown[];
+  pattern?: string;
+  format?: 'regex';
+  minimum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  minProperties?: number;
+  anyOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  errorMessage?: string;
+}
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` });
+
+const stringList: JsonSchema = { type: 'array', minItems: 1, items: { type: 'string' } };
+
+/**
+ * Fields shared by default, OU and account entries.
+ */
+const budgetFields: Record<string, JsonSchema> = {
+  thresholds: { type: ['array', 'null'], items: ref('threshold') },
+  timeUnit: { enum: TIME_UNITS },
+  filter: ref('filter'),
+  costTypes: ref('costTypes'),
+  subscribers: { type: 'array', items: ref('subscriber') },
+  actions: { type: 'array', items: ref('action') },
+  budgets: ref('namedBudgets'),
+  aggregationSnsTopicArn: {
+    type: ['string', 'null'],
+    description: 'Topic the alerts are forwarded to; null turns forwarding off.',
+  },
+};
+
+const entryProperties: Record<string, JsonSchema> = {
+  profile: { type: 'string', description: 'Name of a profile this entry starts from.' },
+  amount: {
+    anyOf: [
+      { type: ['number', 'null'] },
+      { enum: [AUTO_AMOUNT] },
+      { type: 'string', pattern: RELATIVE_AMOUNT_PATTERN.source },
+    ],
+    errorMessage: `expected a number, "${AUTO_AMOUNT}" or a percentage like "50%"`,
+  },
+  lookbackPeriods: { type: 'number' },
+  plannedBudgetLimits: {
+    type: 'object',
+    propertyNames: {
+      pattern: PLANNED_MONTH_PATTERN.source,
+      errorMessage: 'expected a month like "2025-01"',
+    },
+    additionalProperties: { type: 'number', minimum: 0 },
+  },
+  currency: { type: 'string' },
+  ...budgetFields,
+  off: { type: 'boolean', description: 'Disables the budget of this OU or account.' },
+};
+
+const entryObject: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: entryProperties,
+};
+
+export const BUDGET_CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'budget-alerts config',
+  description: 'Budget settings per AWS Organizations OU and account.',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    version: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Version of the config format; older versions are migrated when loaded.',
+    },
+    include: {
+      anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+      errorMessage: 'expected a path or a list of paths',
+      description: 'Further config files or directories, relative to this file.',
+    },
+    default: {
+      type: ['object', 'null'],
+      required: ['currency'],
+      additionalProperties: false,
+      properties: {
+        amount: { type: ['number', 'null'] },
+        currency: { type: 'string' },
+        ...budgetFields,
+        recipientSources: { type: 'array', minItems: 1, items: { enum: RECIPIENT_SOURCES } },
+        recipientTagKey: { type: 'string' },
+      },
+    },
+    organizationalUnits: {
+      type: ['object', 'null'],
+      description: 'OU ID, path or "name: <OU name>" -> budget settings.',
+      additionalProperties: ref('entry'),
+    },
+    accounts: {
+      type: ['object', 'null'],
+      description: 'Account ID -> budget settings.',
+      additionalProperties: ref('entry'),
+    },
+    inheritFields: { type: 'boolean' },
+    profiles: { type: 'object', additionalProperties: entryObject },
+    rules: { type: 'array', items: ref('rule') },
+  },
+  definitions: {
+    entry: { ...entryObject, type: ['object', 'null'] },
+    subscriber: {
+      anyOf: [
+        {
+          type: 'object',
+          required: ['email'],
+          additionalProperties: false,
+          properties: { email: { type: 'string' } },
+        },
+        {
+          type: 'object',
+          required: ['snsTopicArn'],
+          additionalProperties: false,
+          properties: { snsTopicArn: { type: 'string' } },
+        },
+      ],
+      errorMessage: 'expected an object with either "email" or "snsTopicArn"',
+    },
+    threshold: {
+      anyOf: [
+        { type: 'number' },
+        {
+          type: 'object',
+          required: ['value'],
+          additionalProperties: false,
+          properties: {
+            value: { type: 'number' },
+            thresholdType: { enum: THRESHOLD_TYPES },
+            notificationType: { enum: NOTIFICATION_TYPES },
+            subscribers: { type: 'array', items: ref('subscriber') },
+          },
+        },
+      ],
+    },
+    filter: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        services: stringList,
+        regions: stringList,
+        usageTypes: stringList,
+        tags: { type: 'object', additionalProperties: stringList },
+      },
+    },
+    costTypes: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        includeCredit: { type: 'boolean' },
+        includeRefund: { type: 'boolean' },
+        includeTax: { type: 'boolean' },
+        includeSupport: { type: 'boolean' },
+        includeUpfront: { type: 'boolean' },
+        metric: { enum: COST_METRICS },
+      },
+    },
+    action: {
+      type: 'object',
+      required: ['threshold'],
+      additionalProperties: false,
+      properties: {
+        threshold: ref('threshold'),
+        requireApproval: { type: 'boolean' },
+        applyIamPolicy: {
+          type: 'object',
+          required: ['policyArn'],
+          additionalProperties: false,
+          properties: {
+            policyArn: { type: 'string' },
+            roles: stringList,
+            groups: stringList,
+            users: stringList,
+          },
+        },
+        stopInstances: {
+          type: 'object',
+          required: ['service', 'region', 'instanceIds'],
+          additionalProperties: false,
+          properties: {
+            service: { enum: STOPPABLE_SERVICES },
+            region: { type: 'string' },
+            instanceIds: stringList,
+          },
+        },
+      },
+    },
+    namedBudgets: {
+      type: ['object', 'null'],
+      additionalProperties: {
+        type: ['object', 'null'],
+        required: ['amount'],
+        additionalProperties: false,
+        properties: {
+          amount: { type: 'number' },
+          budgetType: { enum: BUDGET_TYPES },
+          usageUnit: { type: 'string' },
+          currency: { type: 'string' },
+          thresholds: budgetFields.thresholds,
+          timeUnit: budgetFields.timeUnit,
+          filter: budgetFields.filter,
+          costTypes: budgetFields.costTypes,
+        },
+      },
+    },
+    rule: {
+      type: 'object',
+      required: ['match', 'budget'],
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string' },
+        match: {
+          type: 'object',
+          minProperties: 1,
+          additionalProperties: false,
+          properties: {
+            ouName: { type: 'string', description: 'Glob on the OU name, e.g. "Sandbox-*".' },
+            ouNameRegex: { type: 'string', format: 'regex' },
+            tags: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+        },
+        budget: entryObject,
+      },
+    },
+  },
+};
+
+/**
+ * A problem found in the config: the path of the offending value and what was expected.
+ */
+export interface ConfigIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function hasType(schema: JsonSchema, value: unknown): boolean {
+  if (schema.type === undefined) {
+    return true;
+  }
+  const actual = typeOf(value);
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.includes(actual) || (actual === 'integer' && types.includes('number'));
+}
+
+const TYPE_NAMES: Record<JsonType, string> = {
+  object: 'an object',
+  array: 'a list',
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'true or false',
+  null: 'null',
+};
+
+function expected(schema: JsonSchema): string {
+  if (schema.errorMessage) {
+    return schema.errorMessage;
+  }
+  if (schema.enum) {
+    return `expected one of ${schema.enum.join(', ')}`;
+  }
+  if (schema.anyOf) {
+    return `expected ${schema.anyOf.map((option) => expected(option).replace(/^expected /, '')).join(' or ')}`;
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type ?? 'object'];
+  return `expected ${types.map((type) => TYPE_NAMES[type]).join(' or ')}`;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The known key closest to an unknown one, if it is close enough to be a typo.
+ */
+export function suggestKey(key: string, known: string[]): string | undefined {
+  let best: { key: string; distance: number } | undefined;
+  for (const candidate of known) {
+    const distance = editDistance(key, candidate);
+    if (
+      distance <= Math.max(2, Math.floor(candidate.length / 3)) &&
+      distance < (best?.distance ?? Infinity)
+    ) {
+      best = { key: candidate, distance };
+    }
+  }
+  return best?.key;
+}
+
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const name = schema.$ref.replace('#/definitions/', '');
+  const target = root.definitions?.[name];
+  if (!target) {
+    throw new Error(`Unknown schema reference: ${schema.$ref}`);
+  }
+  return target;
+}
+
+function checkValue(
+  schema: JsonSchema,
+  value: unknown,
+  path: (string | number)[],
+  root: JsonSchema,
+): ConfigIssue[] {
+  schema = resolveRef(schema, root);
+
+  if (schema.anyOf) {
+    const options = schema.anyOf.map((option) => resolveRef(option, root));
+    const results = options.map((option) => checkValue(option, value, path, root));
+    if (results.some((issues) => issues.length === 0)) {
+      return [];
+    }
+    // If only one option has the right type, its issues are the most precise
+    const matching = results.filter((_, index) => hasType(options[index], value));
+    if (matching.length === 1 && !schema.errorMessage) {
+      return matching[0];
+    }
+    return [{ path, message: expected(schema) }];
+  }
+
+  if (!hasType(schema, value)) {
+    return [{ path, message: expected(schema) }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path, message: expected(schema) }];
+  }
+
+  if (typeof value === 'string') {
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      return [
+        { path, message: schema.errorMessage ?? `expected a string matching ${schema.pattern}` },
+      ];
+    }
+    if (schema.format === 'regex') {
+      try {
+        new RegExp(value);
+      } catch {
+        return [{ path, message: 'expected a valid regular expression' }];
+      }
+    }
+    return [];
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return [{ path, message: `expected a number of at least ${schema.minimum}` }];
+    }
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return [{ path, message: `expected a list with at least ${schema.minItems} item(s)` }];
+    }
+    const items = schema.items;
+    return items
+      ? value.flatMap((item, index) => checkValue(items, item, [...path, index], root))
+      : [];
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return [];
+  }
+  const record = value as Record<string, unknown>;
+  const issues: ConfigIssue[] = [];
+  for (const key of schema.required ?? []) {
+    if (record[key] === undefined) {
+      issues.push({ path: [...path, key], message: 'is required' });
+    }
+  }
+  const defined = Object.values(record).filter((child) => child !== undefined);
+  if (schema.minProperties !== undefined && defined.length < schema.minProperties) {
+    issues.push({
+      path,
+      message: `expected at least one of ${Object.keys(schema.properties ?? {}).join(', ')}`,
+    });
+  }
+  const known = Object.keys(schema.properties ?? {});
+  for (const [key, child] of Object.entries(record)) {
+    if (child === undefined) {
+      continue; // configs built in code may have unset optional fields
+    }
+    const childPath = [...path, key];
+    if (schema.propertyNames) {
+      issues.push(...checkValue(schema.propertyNames, key, childPath, root));
+    }
+    const property = schema.properties?.[key];
+    if (property) {
+      issues.push(...checkValue(property, child, childPath, root));
+    } else if (schema.additionalProperties === false) {
+      const suggestion = suggestKey(key, known);
+      issues.push({
+        path: childPath,
+        message: suggestion ? `unknown key, did you mean "${suggestion}"?` : 'unknown key',
+      });
+    } else if (typeof schema.additionalProperties === 'object') {
+      issues.push(...checkValue(schema.additionalProperties, child, childPath, root));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check a parsed config against BUDGET_CONFIG_SCHEMA and return all issues found.
+ */
+export function validateConfigSchema(value: unknown): ConfigIssue[] {
+  const issues = checkValue(BUDGET_CONFIG_SCHEMA, value, [], BUDGET_CONFIG_SCHEMA);
+  if (issues.length > 0 || value === null || typeof value !== 'object') {
+    return issues;
+  }
+  // The only rule JSON Schema can't express as an editor would want it
+  const { default: def, organizationalUnits } = value as Record<string, unknown>;
+  if (!def && !organizationalUnits) {
+    return [{ path: [], message: 'expected "default" or "organizationalUnits"' }];
+  }
+  return [];
+}
+
+/**
+ * Render a path like organizationalUnits.ou-a.thresholds[1] or accounts["1111"].
+ */
+export function formatConfigPath(path: (string | number)[]): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+  return path
+    .map((key, index) => {
+      if (typeof key === 'number') return `[${key}]`;
+      if (/^[A-Za-z_][\w-]*$/.test(key)) return index === 0 ? key : `.${key}`;
+      return `[${JSON.stringify(key)}]`;
+    })
+    .join('');
+}
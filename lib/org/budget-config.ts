@@ -1,14 +1,393 @@
-export type Thresholds = readonly number[]; // e.g. [75, 100]
+export type NotificationType = 'ACTUAL' | 'FORECASTED';
+
+export const NOTIFICATION_TYPES: readonly NotificationType[] = ['ACTUAL', 'FORECASTED'];
+
+export type ThresholdType = 'PERCENTAGE' | 'ABSOLUTE_VALUE';
+
+export const THRESHOLD_TYPES: readonly ThresholdType[] = ['PERCENTAGE', 'ABSOLUTE_VALUE'];
+
+/**
+ * Extra recipient of budget notifications. Exactly one of email and snsTopicArn must be set.
+ */
+export interface SubscriberConfig {
+  email?: string;
+
+  /**
+   * The topic policy must allow budgets.amazonaws.com to publish.
+   */
+  snsTopicArn?: string;
+}
+
+/**
+ * AWS Budgets limits of subscribers per notification. The account email counts as an
+ * email subscriber, the aggregation topic as an SNS subscriber.
+ */
+export const MAX_EMAIL_SUBSCRIBERS_PER_NOTIFICATION = 10;
+export const MAX_SNS_SUBSCRIBERS_PER_NOTIFICATION = 1;
+
+/**
+ * AWS Budgets limit of notifications, i.e. thresholds, per budget.
+ */
+export const MAX_NOTIFICATIONS_PER_BUDGET = 5;
+
+/**
+ * Highest PERCENTAGE threshold AWS Budgets accepts.
+ */
+export const MAX_PERCENTAGE_THRESHOLD = 1000;
+
+export interface ThresholdDefinition {
+  /**
+   * Value at which the alert is triggered: a percentage of the budget amount,
+   * or an amount in the budget currency for ABSOLUTE_VALUE thresholds.
+   */
+  value: number;
+
+  /**
+   * PERCENTAGE (default) or ABSOLUTE_VALUE, e.g. "notify at 500 EUR"
+   * regardless of the budget amount.
+   */
+  thresholdType?: ThresholdType;
+
+  /**
+   * ACTUAL alerts on incurred spend, FORECASTED on forecasted spend.
+   * If omitted, ACTUAL is used.
+   */
+  notificationType?: NotificationType;
+
+  /**
+   * Recipients of this threshold only, in addition to the budget's subscribers.
+   */
+  subscribers?: SubscriberConfig[];
+}
+
+/**
+ * A plain number is shorthand for an ACTUAL PERCENTAGE threshold with that value.
+ */
+export type Threshold = number | ThresholdDefinition;
+
+export type Thresholds = readonly Threshold[]; // e.g. [75, 100, { value: 100, notificationType: FORECASTED }]
+
+export type TimeUnit = 'DAILY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY';
+
+export const TIME_UNITS: readonly TimeUnit[] = ['DAILY', 'MONTHLY', 'QUARTERLY', 'ANNUALLY'];
+
+/**
+ * AWS Budgets limit of past periods an auto amount can average, per time unit.
+ */
+export const MAX_LOOKBACK_PERIODS: Record<TimeUnit, number> = {
+  DAILY: 60,
+  MONTHLY: 12,
+  QUARTERLY: 4,
+  ANNUALLY: 1,
+};
+
+/**
+ * Version of the config format written by this release, see budget-config-migrations.ts.
+ */
+export const CURRENT_CONFIG_VERSION = 2;
 
 export const DEFAULT_THRESHOLDS: Thresholds = [75, 100] as const;
 export const DEFAULT_CURRENCY = 'USD';
 
+/**
+ * ISO 4217 codes of the currencies AWS Budgets supports for budget amounts.
+ */
+export const BUDGET_CURRENCIES: readonly string[] = [
+  'AUD',
+  'BRL',
+  'CAD',
+  'CHF',
+  'CNY',
+  'DKK',
+  'EUR',
+  'GBP',
+  'HKD',
+  'INR',
+  'JPY',
+  'KRW',
+  'NOK',
+  'NZD',
+  'SEK',
+  'SGD',
+  'USD',
+  'ZAR',
+];
+export const DEFAULT_TIME_UNIT: TimeUnit = 'MONTHLY';
+
+/**
+ * Amount of a budget that AWS adjusts to the average spend of past periods.
+ */
+export const AUTO_AMOUNT = 'auto';
+
+export type BudgetAmount = number | typeof AUTO_AMOUNT;
+
+/**
+ * Amount of an OU budget as a percentage of the budget of its parent OU, e.g. "50%".
+ */
+export type RelativeAmount = `${number}%`;
+
+export const RELATIVE_AMOUNT_PATTERN = /^\d+(\.\d+)?%$/;
+
+export function isRelativeAmount(amount: unknown): amount is RelativeAmount {
+  return typeof amount === 'string' && RELATIVE_AMOUNT_PATTERN.test(amount);
+}
+
+/**
+ * Budget amounts for individual months, keyed by "YYYY-MM".
+ */
+export type PlannedBudgetLimits = Partial<Record<string, number>>;
+
+export const PLANNED_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Expand the number shorthand so thresholds can be compared and rendered uniformly.
+ */
+export function normalizeThreshold(threshold: Threshold): Required<ThresholdDefinition> {
+  if (typeof threshold === 'number') {
+    return {
+      value: threshold,
+      thresholdType: 'PERCENTAGE',
+      notificationType: 'ACTUAL',
+      subscribers: [],
+    };
+  }
+  return {
+    value: threshold.value,
+    thresholdType: threshold.thresholdType ?? 'PERCENTAGE',
+    notificationType: threshold.notificationType ?? 'ACTUAL',
+    subscribers: threshold.subscribers ?? [],
+  };
+}
+
+export type BudgetType =
+  | 'COST'
+  | 'USAGE'
+  | 'RI_UTILIZATION'
+  | 'RI_COVERAGE'
+  | 'SAVINGS_PLANS_UTILIZATION'
+  | 'SAVINGS_PLANS_COVERAGE';
+
+export const BUDGET_TYPES: readonly BudgetType[] = [
+  'COST',
+  'USAGE',
+  'RI_UTILIZATION',
+  'RI_COVERAGE',
+  'SAVINGS_PLANS_UTILIZATION',
+  'SAVINGS_PLANS_COVERAGE',
+];
+
+/**
+ * Budget types whose amount is a target percentage that alerts when undershot.
+ */
+export function isPercentageBudgetType(budgetType: BudgetType): boolean {
+  return budgetType !== 'COST' && budgetType !== 'USAGE';
+}
+
+export type CostMetric = 'UnblendedCost' | 'AmortizedCost' | 'BlendedCost';
+
+export const COST_METRICS: readonly CostMetric[] = [
+  'UnblendedCost',
+  'AmortizedCost',
+  'BlendedCost',
+];
+
+/**
+ * Which kinds of charges count towards a budget, and how they are priced.
+ */
+export interface CostTypes {
+  /**
+   * Count credits against spend. Defaults to false.
+   */
+  includeCredit?: boolean;
+
+  /**
+   * Count refunds against spend. Defaults to true.
+   */
+  includeRefund?: boolean;
+
+  /**
+   * Defaults to true.
+   */
+  includeTax?: boolean;
+
+  /**
+   * AWS Support fees. Defaults to true.
+   */
+  includeSupport?: boolean;
+
+  /**
+   * One-time upfront fees for Reserved Instances and Savings Plans. Defaults to true.
+   */
+  includeUpfront?: boolean;
+
+  /**
+   * UnblendedCost (default), AmortizedCost spreads upfront fees over the term,
+   * BlendedCost uses the organization-wide average rates.
+   */
+  metric?: CostMetric;
+}
+
+/**
+ * Fill in the defaults, which exclude credits and nothing else.
+ */
+export function normalizeCostTypes(costTypes: CostTypes | undefined): Required<CostTypes> {
+  return {
+    includeCredit: costTypes?.includeCredit ?? false,
+    includeRefund: costTypes?.includeRefund ?? true,
+    includeTax: costTypes?.includeTax ?? true,
+    includeSupport: costTypes?.includeSupport ?? true,
+    includeUpfront: costTypes?.includeUpfront ?? true,
+    metric: costTypes?.metric ?? 'UnblendedCost',
+  };
+}
+
+/**
+ * Narrows down which costs count towards a budget. All given conditions must
+ * match; values within one condition are alternatives.
+ */
+export interface BudgetFilter {
+  /**
+   * Service names as shown in Cost Explorer, e.g. "Amazon Bedrock".
+   */
+  services?: string[];
+
+  /**
+   * Region codes, e.g. "eu-west-1".
+   */
+  regions?: string[];
+
+  /**
+   * Usage types, e.g. "EUC1-DataTransfer-Out-Bytes".
+   */
+  usageTypes?: string[];
+
+  /**
+   * Cost allocation tag key -> accepted tag values.
+   */
+  tags?: Partial<Record<string, string[]>>;
+}
+
+/**
+ * Attach an IAM policy to roles, groups or users of the account, e.g. a deny policy.
+ */
+export interface IamPolicyActionConfig {
+  /**
+   * ARN of a managed policy, e.g. arn:aws:iam::aws:policy/AWSDenyAll.
+   */
+  policyArn: string;
+
+  roles?: string[];
+  groups?: string[];
+  users?: string[];
+}
+
+export type StoppableService = 'EC2' | 'RDS';
+
+export const STOPPABLE_SERVICES: readonly StoppableService[] = ['EC2', 'RDS'];
+
+/**
+ * Stop EC2 or RDS instances by ID. Budget actions cannot select instances by tag.
+ */
+export interface StopInstancesActionConfig {
+  service: StoppableService;
+  region: string;
+  instanceIds: string[];
+}
+
+/**
+ * Runs once the budget reaches the threshold. Exactly one of applyIamPolicy and
+ * stopInstances must be set.
+ */
+export interface BudgetActionConfig {
+  threshold: Threshold;
+
+  /**
+   * If true, the action waits for manual approval in the Budgets console.
+   * If omitted, the action runs automatically.
+   */
+  requireApproval?: boolean;
+
+  applyIamPolicy?: IamPolicyActionConfig;
+  stopInstances?: StopInstancesActionConfig;
+}
+
+/**
+ * An additional budget next to the main budget, e.g. an EC2-only budget.
+ */
+export interface NamedBudgetConfig {
+  /**
+   * Budget amount in the currency for COST budgets, in usageUnit for USAGE budgets,
+   * or the target percentage (0-100) for utilization and coverage budgets.
+   */
+  amount: number;
+
+  /**
+   * If omitted, COST is used. Not taken from the default.
+   */
+  budgetType?: BudgetType;
+
+  /**
+   * Unit of a USAGE budget amount, e.g. "Hrs" or "GB". Required for USAGE budgets,
+   * which also need a filter on usageTypes.
+   */
+  usageUnit?: string;
+
+  /**
+   * If omitted, the default currency is used.
+   */
+  currency?: string;
+
+  /**
+   * If omitted, the default thresholds are used. Not valid for utilization and coverage budgets.
+   */
+  thresholds?: Thresholds;
+
+  /**
+   * If omitted, the default time unit is used.
+   */
+  timeUnit?: TimeUnit;
+
+  /**
+   * Cost filter of this named budget. Not taken from the default.
+   */
+  filter?: BudgetFilter;
+  /**
+   * If omitted, the default cost types are used.
+   */
+  costTypes?: CostTypes;
+}
+
+/**
+ * Named budgets by name. Each name is inherited down the OU tree on its own;
+ * null removes an inherited named budget from an OU subtree.
+ */
+export type NamedBudgets = Partial<Record<string, NamedBudgetConfig | null>>;
+
 export interface OuBudgetConfigEntry {
   /**
-   * Explicit budget amount for this OU.
+   * Name of a profile in config.profiles this entry starts from. Fields set on
+   * the entry override those of the profile.
+   */
+  profile?: string;
+
+  /**
+   * Explicit budget amount for this OU, "auto" to follow historical spend, or a
+   * percentage of the parent OU's amount like "50%" (OUs only).
    * null = "no explicit override" (use default or inheritance later).
    */
-  amount: number | null;
+  amount: BudgetAmount | RelativeAmount | null;
+
+  /**
+   * Number of past budget periods averaged by an "auto" amount, e.g. 6 months.
+   * Required for and only valid with amount "auto".
+   */
+  lookbackPeriods?: number;
+
+  /**
+   * Amounts for individual months of a MONTHLY budget, e.g. { '2025-12': 3000 }.
+   * Months that are not listed use amount, which must be a number.
+   */
+  plannedBudgetLimits?: PlannedBudgetLimits;
 
   /**
    * Optional currency override.
@@ -16,11 +395,47 @@ export interface OuBudgetConfigEntry {
   currency?: string;
 
   /**
-   * Percentage thresholds at which budget alerts will be triggered.
+   * Percentage or absolute thresholds at which budget alerts will be triggered,
+   * either on actual or on forecasted spend.
    * If omitted, the default thresholds ([75, 100]) will be used.
    */
   thresholds?: Thresholds;
 
+  /**
+   * Period the budget amount applies to.
+   * If omitted, the time unit is inherited from the parent OU (or the default, MONTHLY).
+   */
+  timeUnit?: TimeUnit;
+
+  /**
+   * Optional cost filter, e.g. only a single service or region.
+   * If omitted, the default filter is used.
+   */
+  filter?: BudgetFilter;
+
+  /**
+   * Which charges count towards the budget.
+   * If omitted, the default cost types are used (everything except credits).
+   */
+  costTypes?: CostTypes;
+
+  /**
+   * Extra recipients of all notifications, next to the account email.
+   * If omitted, the default subscribers are used.
+   */
+  subscribers?: SubscriberConfig[];
+
+  /**
+   * Actions that run when the budget is exceeded, e.g. attaching a deny policy.
+   * If omitted, the default actions are used.
+   */
+  actions?: BudgetActionConfig[];
+
+  /**
+   * Additional named budgets for the accounts in this OU.
+   */
+  budgets?: NamedBudgets;
+
   /**
    * If true, this ou will not have a budget attached
    * If not specified, defaults to false
@@ -28,19 +443,99 @@ export interface OuBudgetConfigEntry {
   off?: boolean; // if true, budget is disabled for this OU
 
   /**
-   * Optionally enable SNS topic for budget notifications for this OU.
-   * If you want aggregation to a single SNS topic, also set aggregationSnsTopicArn in the default config.
-   * Useful when you want to integrate Amazon Chatsbot with your budget notifications.
+   * SNS topic the budget notifications of this OU are forwarded to, e.g. the topic of a
+   * business unit's Amazon Chatbot channel. null turns aggregation off for this OU.
+   * If omitted, the topic is inherited from the parent OU (or the default).
    */
   aggregationSnsTopicArn?: string | null;
 }
 
+/**
+ * Selects OUs by name or tags. All given conditions must match.
+ */
+export interface OuSelector {
+  /**
+   * Glob on the OU name: * matches any characters, ? a single one, e.g. "*-sandbox".
+   */
+  ouName?: string;
+
+  /**
+   * Regular expression on the OU name, e.g. "^team-[a-z]+-sandbox$".
+   */
+  ouNameRegex?: string;
+
+  /**
+   * OU tag key -> required tag value.
+   */
+  tags?: Partial<Record<string, string>>;
+}
+
+/**
+ * Budget settings for all OUs matched by a selector, e.g. all sandbox OUs.
+ */
+export interface BudgetRule {
+  /**
+   * Identifies the rule when reporting which rule configured an OU.
+   * If omitted, the rule is named after its position, e.g. "rules[0]".
+   */
+  name?: string;
+
+  match: OuSelector;
+
+  budget: OuBudgetConfigEntry;
+}
+
+/**
+ * Budget settings for a single account. Uses the same fields as an OU entry;
+ * fields that are not set fall back to the default budget.
+ */
+export type AccountBudgetConfigEntry = OuBudgetConfigEntry;
+
+/**
+ * Where the email address for the alerts of an account comes from.
+ * BILLING_CONTACT is the billing alternate contact, ACCOUNT_TAG a tag on the account
+ * and ROOT_EMAIL the email address of the account itself.
+ */
+export type RecipientSource = 'BILLING_CONTACT' | 'ACCOUNT_TAG' | 'ROOT_EMAIL';
+
+export const RECIPIENT_SOURCES: readonly RecipientSource[] = [
+  'BILLING_CONTACT',
+  'ACCOUNT_TAG',
+  'ROOT_EMAIL',
+];
+
+export const DEFAULT_RECIPIENT_SOURCES: readonly RecipientSource[] = ['ROOT_EMAIL'];
+export const DEFAULT_RECIPIENT_TAG_KEY = 'budget-owner';
+
 export interface BudgetConfig {
+  /**
+   * Version of the config format. Older configs are migrated when loaded;
+   * configs without a version are version 1.
+   */
+  version?: number;
+
   default: {
     amount?: number;
     currency?: string;
     thresholds?: Thresholds;
+    timeUnit?: TimeUnit;
+    filter?: BudgetFilter;
+    costTypes?: CostTypes;
+    subscribers?: SubscriberConfig[];
+    actions?: BudgetActionConfig[];
+    budgets?: NamedBudgets;
     aggregationSnsTopicArn?: string;
+
+    /**
+     * Sources tried in order to find the email address of an account, e.g.
+     * [BILLING_CONTACT, ACCOUNT_TAG, ROOT_EMAIL]. If omitted, the root email is used.
+     */
+    recipientSources?: RecipientSource[];
+
+    /**
+     * Account tag holding the email address for ACCOUNT_TAG. Defaults to "budget-owner".
+     */
+    recipientTagKey?: string;
   };
 
   /**
@@ -49,6 +544,38 @@ export interface BudgetConfig {
    * naturally have type OuBudgetConfigEntry | undefined.
    */
   organizationalUnits?: Partial<Record<string, OuBudgetConfigEntry>>;
+
+  /**
+   * Whether OUs with their own amount take the fields they don't set (currency,
+   * thresholds, ...) from the nearest ancestor that sets them. Defaults to true;
+   * false takes them from default instead.
+   */
+  inheritFields?: boolean;
+
+  /**
+   * Named sets of budget settings, e.g. "sandbox" or "prod", referenced by
+   * entries with `profile`. A profile may itself reference another profile.
+   */
+  profiles?: Partial<Record<string, Partial<OuBudgetConfigEntry>>>;
+
+  /**
+   * Budget settings for OUs selected by name or tags. An OU uses the first matching
+   * rule, unless it has an entry in organizationalUnits.
+   */
+  rules?: BudgetRule[];
+
+  /**
+   * Flat map from account ID -> budget settings.
+   * Accounts listed here are excluded from the budget of their OU and
+   * get a budget of their own.
+   */
+  accounts?: Partial<Record<string, AccountBudgetConfigEntry>>;
+
+  /**
+   * Further config files, or directories of *.yaml/*.yml files, relative to this file.
+   * The loader merges them into one config and removes this field.
+   */
+  include?: string | string[];
 }
 
 export type NullableSome<T, K extends keyof T> = {
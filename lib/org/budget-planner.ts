@@ -1,31 +1,105 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 // lib/org/budget-planner.ts
 
-import { type Thresholds, type BudgetConfig, DEFAULT_CURRENCY } from './budget-config';
+import {
+  type BudgetActionConfig,
+  type BudgetAmount,
+  type BudgetRule,
+  type Thresholds,
+  type BudgetConfig,
+  type BudgetFilter,
+  type BudgetType,
+  type CostTypes,
+  type NamedBudgetConfig,
+  type NamedBudgets,
+  type OuBudgetConfigEntry,
+  type OuSelector,
+  type PlannedBudgetLimits,
+  type RelativeAmount,
+  type SubscriberConfig,
+  type TimeUnit,
+  AUTO_AMOUNT,
+  DEFAULT_CURRENCY,
+  DEFAULT_TIME_UNIT,
+  DISABLED_CURRENCY,
+  BUDGET_CURRENCIES,
+  MAX_NOTIFICATIONS_PER_BUDGET,
+  MAX_PERCENTAGE_THRESHOLD,
+  MAX_EMAIL_SUBSCRIBERS_PER_NOTIFICATION,
+  MAX_LOOKBACK_PERIODS,
+  MAX_SNS_SUBSCRIBERS_PER_NOTIFICATION,
+  isPercentageBudgetType,
+  isRelativeAmount,
+  normalizeCostTypes,
+  normalizeThreshold,
+} from './budget-config';
+import { type AccountNode, isInactiveAccount } from './org-discovery';
 
 export interface OuNode {
   id: string;
   parentId: string | null;
+  /**
+   * Name and tags are only needed to match rules.
+   */
+  name?: string;
+  tags?: Partial<Record<string, string>>;
 }
 
-export interface OuBudgetAttachment {
-  ouId: string;
-  amount: number;
+/**
+ * The settings of a single budget, as deployed to an account.
+ */
+export interface BudgetSettings {
+  amount: BudgetAmount;
+  lookbackPeriods?: number;
+  plannedBudgetLimits?: PlannedBudgetLimits;
+  subscribers?: SubscriberConfig[];
+  actions?: BudgetActionConfig[];
   currency: string;
   thresholds?: Thresholds;
+  timeUnit?: TimeUnit;
+  filter?: BudgetFilter;
+  costTypes?: CostTypes;
+  budgetType?: BudgetType;
+  usageUnit?: string;
+}
+
+export interface OuBudgetAttachment extends BudgetSettings {
+  ouId: string;
+  /**
+   * Additional named budgets deployed next to the main budget.
+   */
+  budgets?: Record<string, BudgetSettings>;
+  /**
+   * If set, the attachment is account-scoped: it only deploys to this account
+   * inside the OU given by `ouId` (the organization root for account overrides).
+   */
+  accountId?: string;
+  /**
+   * Accounts inside the OU that must not receive this budget because they
+   * have an account-level override.
+   */
+  excludedAccountIds?: string[];
+  /**
+   * Topic the alerts of these accounts are forwarded to. If unset, alerts are not aggregated.
+   */
+  aggregationSnsTopicArn?: string;
 }
 
 // This is the "enabled" shape you already effectively use today
-export interface EffectiveBudgetOn {
+export interface EffectiveBudgetOn extends BudgetSettings {
   mode: 'on';
-  amount: number;
-  currency: string;
-  thresholds?: Thresholds;
+  budgets?: Record<string, BudgetSettings>;
+  aggregationSnsTopicArn?: string;
+  /**
+   * Name of the rule that configured this OU, if it was matched by a rule.
+   */
+  rule?: string;
 }
 
 // Disabled is its own state. No currency sentinel.
 export interface EffectiveBudgetOff {
   mode: 'off';
+  rule?: string;
 }
 
 export type EffectiveBudget = EffectiveBudgetOn | EffectiveBudgetOff;
@@ -68,30 +142,485 @@ export function buildOuTree(ous: OuNode[]): OuTree {
   return { byId, children, roots };
 }
 
-export function validateBudgetConfig(config: BudgetConfig, knownOus: string[]) {
+const ACCOUNT_ID_PATTERN = /^\d{12}$/;
+
+/**
+ * Problems found in a budget config. Validators add to it instead of throwing,
+ * so that all of them are reported at once.
+ */
+type ValidationErrors = string[];
+
+function validateEntry(
+  kind: 'OU' | 'Account' | 'Rule',
+  id: string,
+  entry: OuBudgetConfigEntry,
+  errors: ValidationErrors,
+): void {
+  if (entry.off === true) {
+    if (entry.amount !== null)
+      errors.push(`${kind} ${id}: off=true cannot be combined with amount`);
+    if (entry.currency !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with currency`);
+    if (entry.thresholds !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with thresholds`);
+    if (entry.timeUnit !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with timeUnit`);
+    if (entry.filter !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with filter`);
+    if (entry.costTypes !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with costTypes`);
+    if (entry.plannedBudgetLimits !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with plannedBudgetLimits`);
+    if (entry.subscribers !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with subscribers`);
+    if (entry.actions !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with actions`);
+    if (entry.budgets !== undefined)
+      errors.push(`${kind} ${id}: off=true cannot be combined with budgets`);
+  }
+  validateCurrency(`${kind} ${id}`, entry.currency, errors);
+  validateThresholds(`${kind} ${id}`, entry.thresholds, errors);
+  validateActions(`${kind} ${id}`, entry.actions, errors);
+  validateNamedBudgets(`${kind} ${id}`, entry.budgets, errors);
+}
+
+function validateActions(
+  label: string,
+  actions: BudgetActionConfig[] | undefined,
+  errors: ValidationErrors,
+): void {
+  (actions ?? []).forEach((action, index) => {
+    if ((action.applyIamPolicy === undefined) === (action.stopInstances === undefined)) {
+      errors.push(`${label} action ${index} needs exactly one of applyIamPolicy or stopInstances`);
+    }
+    const iam = action.applyIamPolicy;
+    if (iam && !iam.roles && !iam.groups && !iam.users) {
+      errors.push(`${label} action ${index} needs roles, groups or users for the policy`);
+    }
+  });
+}
+
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf('currency'));
+
+function validateCurrency(
+  label: string,
+  currency: string | undefined,
+  errors: ValidationErrors,
+): void {
+  if (currency === undefined) {
+    return;
+  }
+  if (!ISO_CURRENCIES.has(currency)) {
+    errors.push(`${label} has invalid currency ${currency}, expected an ISO 4217 code like USD`);
+  } else if (!BUDGET_CURRENCIES.includes(currency)) {
+    errors.push(
+      `${label} has currency ${currency}, which AWS Budgets doesn't support. ` +
+        `Supported currencies: ${BUDGET_CURRENCIES.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Thresholds of one budget must be positive, unique and, per notification and
+ * threshold type, in ascending order.
+ */
+function validateThresholds(
+  label: string,
+  thresholds: Thresholds | undefined,
+  errors: ValidationErrors,
+): void {
+  if (thresholds === undefined) {
+    return;
+  }
+  if (thresholds.length === 0) {
+    errors.push(`${label} has no thresholds, omit thresholds to use the default`);
+    return;
+  }
+  if (thresholds.length > MAX_NOTIFICATIONS_PER_BUDGET) {
+    errors.push(
+      `${label} has ${thresholds.length} thresholds, ` +
+        `AWS Budgets allows at most ${MAX_NOTIFICATIONS_PER_BUDGET} notifications per budget`,
+    );
+  }
+
+  const seen = new Map<string, number[]>();
+  for (const threshold of thresholds.map(normalizeThreshold)) {
+    const { value, thresholdType, notificationType } = threshold;
+    const unit = thresholdType === 'PERCENTAGE' ? '%' : '';
+    if (value <= 0) {
+      errors.push(`${label} threshold ${value}${unit} must be greater than 0`);
+    }
+    if (thresholdType === 'PERCENTAGE' && value > MAX_PERCENTAGE_THRESHOLD) {
+      errors.push(
+        `${label} threshold ${value}% is above the maximum of ${MAX_PERCENTAGE_THRESHOLD}%`,
+      );
+    }
+
+    const kind = `${notificationType} ${thresholdType}`;
+    const values = seen.get(kind) ?? [];
+    if (values.includes(value)) {
+      errors.push(`${label} has duplicate ${kind} threshold ${value}${unit}`);
+    } else if (values.some((previous) => previous > value)) {
+      errors.push(
+        `${label} ${kind} thresholds are not in ascending order: ` +
+          `${value}${unit} comes after ${Math.max(...values)}${unit}`,
+      );
+    }
+    seen.set(kind, [...values, value]);
+  }
+}
+
+const BUDGET_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function isValidFixedAmount(amount: number): boolean {
+  return Number.isFinite(amount) && amount >= 0;
+}
+
+function validateAmount(
+  kind: 'OU' | 'Account' | 'Rule',
+  id: string,
+  entry: OuBudgetConfigEntry,
+  errors: ValidationErrors,
+): void {
+  if (entry.plannedBudgetLimits !== undefined) {
+    if (typeof entry.amount !== 'number') {
+      errors.push(`${kind} ${id}: plannedBudgetLimits need a fixed amount`);
+    }
+    if (entry.timeUnit !== undefined && entry.timeUnit !== 'MONTHLY') {
+      errors.push(`${kind} ${id}: plannedBudgetLimits are only valid for MONTHLY budgets`);
+    }
+  }
+  if (entry.amount === AUTO_AMOUNT) {
+    const lookback = entry.lookbackPeriods;
+    if (lookback === undefined || !Number.isInteger(lookback) || lookback < 1) {
+      errors.push(`${kind} ${id}: amount auto needs a positive integer lookbackPeriods`);
+    }
+    return;
+  }
+  if (entry.lookbackPeriods !== undefined) {
+    errors.push(`${kind} ${id}: lookbackPeriods is only valid with amount auto`);
+  }
+  if (isRelativeAmount(entry.amount)) {
+    if (kind === 'Account') {
+      errors.push(`Account ${id}: relative amounts are only valid for OUs`);
+    } else if (parseFloat(entry.amount) <= 0) {
+      errors.push(`${kind} ${id} has invalid budget amount: ${entry.amount}`);
+    }
+    return;
+  }
+  if (entry.amount !== null && !isValidFixedAmount(entry.amount)) {
+    errors.push(`${kind} ${id} has invalid budget amount: ${entry.amount}`);
+  }
+}
+
+/**
+ * Auto amounts are always active; fixed amounts only when positive.
+ */
+function hasActiveAmount(budget: BudgetSettings): boolean {
+  return budget.amount === AUTO_AMOUNT || budget.amount > 0;
+}
+
+function validateNamedBudgets(
+  label: string,
+  budgets: NamedBudgets | undefined,
+  errors: ValidationErrors,
+): void {
+  for (const [name, budget] of Object.entries(budgets ?? {})) {
+    if (!BUDGET_NAME_PATTERN.test(name)) {
+      errors.push(`${label} has invalid budget name: ${name}`);
+    }
+    if (!budget) {
+      continue;
+    }
+    if (!isValidFixedAmount(budget.amount)) {
+      errors.push(`${label} budget ${name} has invalid budget amount: ${budget.amount}`);
+    }
+    validateBudgetType(`${label} budget ${name}`, budget, errors);
+    validateCurrency(`${label} budget ${name}`, budget.currency, errors);
+    validateThresholds(`${label} budget ${name}`, budget.thresholds, errors);
+  }
+}
+
+function validateBudgetType(
+  label: string,
+  budget: NamedBudgetConfig,
+  errors: ValidationErrors,
+): void {
+  const budgetType = budget.budgetType ?? 'COST';
+  if (budgetType === 'USAGE' && !budget.usageUnit) {
+    errors.push(`${label}: USAGE budgets need a usageUnit`);
+  }
+  if (budgetType !== 'USAGE' && budget.usageUnit !== undefined) {
+    errors.push(`${label}: usageUnit is only valid for USAGE budgets`);
+  }
+  if (budgetType !== 'COST' && budget.costTypes !== undefined) {
+    errors.push(`${label}: costTypes are only valid for COST budgets`);
+  }
+  if (budgetType === 'USAGE' && !budget.filter?.usageTypes?.length) {
+    errors.push(`${label}: USAGE budgets need a filter on usageTypes`);
+  }
+  if (isPercentageBudgetType(budgetType) && budget.amount > 100) {
+    errors.push(`${label} has invalid target percentage: ${budget.amount}`);
+  }
+  if (isPercentageBudgetType(budgetType) && budget.thresholds !== undefined) {
+    errors.push(`${label}: thresholds are not valid for ${budgetType} budgets`);
+  }
+  if (
+    (budgetType === 'RI_UTILIZATION' || budgetType === 'RI_COVERAGE') &&
+    budget.filter?.services?.length !== 1
+  ) {
+    errors.push(`${label}: ${budgetType} budgets need a filter on exactly one service`);
+  }
+}
+
+/**
+ * Checks that depend on the time unit, which an OU may inherit from an ancestor or the default.
+ */
+function validateTimeUnit(
+  label: string,
+  budget: EffectiveBudgetOn,
+  errors: ValidationErrors,
+): void {
+  const timeUnit = budget.timeUnit ?? DEFAULT_TIME_UNIT;
+  if (budget.plannedBudgetLimits !== undefined && timeUnit !== 'MONTHLY') {
+    errors.push(
+      `${label}: plannedBudgetLimits are only valid for MONTHLY budgets, not ${timeUnit}`,
+    );
+  }
+  if (
+    budget.amount === AUTO_AMOUNT &&
+    budget.lookbackPeriods !== undefined &&
+    budget.lookbackPeriods > MAX_LOOKBACK_PERIODS[timeUnit]
+  ) {
+    errors.push(
+      `${label}: lookbackPeriods ${budget.lookbackPeriods} is above the maximum of ` +
+        `${MAX_LOOKBACK_PERIODS[timeUnit]} for ${timeUnit} budgets`,
+    );
+  }
+}
+
+/**
+ * Every notification goes to the account email, the aggregation topic if configured,
+ * the subscribers of the budget and those of the threshold. AWS Budgets allows
+ * separate numbers of email and SNS subscribers per notification.
+ */
+function validateSubscriberCounts(
+  label: string,
+  budget: EffectiveBudgetOn,
+  errors: ValidationErrors,
+): void {
+  const subscribers: SubscriberConfig[] = [
+    { email: 'account email' },
+    ...(budget.aggregationSnsTopicArn ? [{ snsTopicArn: budget.aggregationSnsTopicArn }] : []),
+    ...(budget.subscribers ?? []),
+  ];
+
+  const notifications: [string, SubscriberConfig[]][] = [];
+  const addNotifications = (budgetLabel: string, settings: BudgetSettings) => {
+    if (isPercentageBudgetType(settings.budgetType ?? 'COST')) {
+      // A single notification when the target is missed
+      notifications.push([budgetLabel, subscribers]);
+      return;
+    }
+    for (const threshold of (settings.thresholds ?? []).map(normalizeThreshold)) {
+      notifications.push([
+        `${budgetLabel} threshold ${threshold.value}`,
+        [...subscribers, ...threshold.subscribers],
+      ]);
+    }
+  };
+  addNotifications(label, budget);
+  for (const [name, named] of Object.entries(budget.budgets ?? {})) {
+    addNotifications(`${label} budget ${name}`, named);
+  }
+
+  for (const [notificationLabel, notificationSubscribers] of notifications) {
+    const emails = notificationSubscribers.filter((subscriber) => subscriber.email).length;
+    const topics = notificationSubscribers.length - emails;
+    if (emails > MAX_EMAIL_SUBSCRIBERS_PER_NOTIFICATION) {
+      errors.push(
+        `${notificationLabel} has ${emails} email subscribers including the account email, ` +
+          `AWS Budgets allows at most ${MAX_EMAIL_SUBSCRIBERS_PER_NOTIFICATION}`,
+      );
+    }
+    if (topics > MAX_SNS_SUBSCRIBERS_PER_NOTIFICATION) {
+      errors.push(
+        `${notificationLabel} has ${topics} SNS subscribers including the aggregation topic, ` +
+          `AWS Budgets allows at most ${MAX_SNS_SUBSCRIBERS_PER_NOTIFICATION}`,
+      );
+    }
+  }
+}
+
+/**
+ * Throw one error listing every problem found, if any.
+ */
+function throwIfInvalid(errors: ValidationErrors): void {
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid budget config (${errors.length} problem${errors.length === 1 ? '' : 's'}):\n` +
+        errors.map((error) => `  - ${error}`).join('\n'),
+    );
+  }
+}
+
+/**
+ * Account overrides need an account of the organization that StackSets can deploy to,
+ * unless they turn the budget off.
+ */
+function validateAccount(
+  accountId: string,
+  entry: OuBudgetConfigEntry,
+  accounts: AccountNode[],
+  errors: ValidationErrors,
+): void {
+  const account = accounts.find((candidate) => candidate.id === accountId);
+  if (!account) {
+    errors.push(`Budget config refers to unknown account: ${accountId}`);
+    return;
+  }
+  if (entry.off) {
+    return;
+  }
+  if (account.management) {
+    errors.push(
+      `Account ${accountId} is the management account, which StackSets don't deploy to. ` +
+        'Remove its entry or set off: true',
+    );
+  } else if (isInactiveAccount(account)) {
+    errors.push(
+      `Account ${accountId} is ${account.status}, StackSets only deploy to ACTIVE accounts. ` +
+        'Remove its entry or set off: true',
+    );
+  }
+}
+
+/**
+ * Check the config against the OUs and accounts of the organization and the limits
+ * of AWS Budgets. Accounts are only checked if given. Throws one error listing every
+ * problem found.
+ */
+export function validateBudgetConfig(
+  config: BudgetConfig,
+  knownOus: string[],
+  accounts?: AccountNode[],
+) {
+  const errors: ValidationErrors = [];
+
+  const defaultAmount = config.default.amount;
+  if (defaultAmount !== undefined && !isValidFixedAmount(defaultAmount)) {
+    errors.push(`Default has invalid budget amount: ${defaultAmount}`);
+  }
+  if (config.default.currency !== DISABLED_CURRENCY) {
+    validateCurrency('Default', config.default.currency, errors);
+  }
+  validateThresholds('Default', config.default.thresholds, errors);
+  validateActions('Default', config.default.actions, errors);
+  validateNamedBudgets('Default', config.default.budgets, errors);
+
   if (config.organizationalUnits) {
     for (const [ouId, entry] of Object.entries(config.organizationalUnits)) {
       if (!entry) {
-        throw new Error(`Budget config for OU ${ouId} is undefined`);
-      }
-      if (entry.off === true) {
-        if (entry.amount !== null)
-          throw new Error(`OU ${ouId}: off=true cannot be combined with amount`);
-        if (entry.currency !== undefined)
-          throw new Error(`OU ${ouId}: off=true cannot be combined with currency`);
-        if (entry.thresholds !== undefined)
-          throw new Error(`OU ${ouId}: off=true cannot be combined with thresholds`);
+        errors.push(`Budget config for OU ${ouId} is undefined`);
+        continue;
       }
+      validateEntry('OU', ouId, entry, errors);
 
       if (!knownOus.includes(ouId)) {
-        throw new Error(`Budget config refers to unknown OU: ${ouId}`);
+        errors.push(`Budget config refers to unknown OU: ${ouId}`);
       }
 
-      if (entry.amount !== null && entry.amount < 0) {
-        throw new Error(`OU ${ouId} has invalid budget amount: ${entry.amount}`);
+      validateAmount('OU', ouId, entry, errors);
+    }
+  }
+  (config.rules ?? []).forEach((rule, index) => {
+    const name = ruleName(rule, index);
+    validateEntry('Rule', name, rule.budget, errors);
+    validateAmount('Rule', name, rule.budget, errors);
+  });
+  if (config.accounts) {
+    for (const [accountId, entry] of Object.entries(config.accounts)) {
+      if (!entry) {
+        errors.push(`Budget config for account ${accountId} is undefined`);
+        continue;
       }
+      validateEntry('Account', accountId, entry, errors);
+
+      if (!ACCOUNT_ID_PATTERN.test(accountId)) {
+        errors.push(`Budget config refers to invalid account ID: ${accountId}`);
+      } else if (accounts) {
+        validateAccount(accountId, entry, accounts, errors);
+      }
+
+      validateAmount('Account', accountId, entry, errors);
     }
   }
+
+  throwIfInvalid(errors);
+}
+
+function ruleName(rule: BudgetRule, index: number): string {
+  return rule.name ?? `rules[${index}]`;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesSelector(ou: OuNode, selector: OuSelector): boolean {
+  const name = ou.name ?? '';
+  if (selector.ouName !== undefined && !globToRegExp(selector.ouName).test(name)) {
+    return false;
+  }
+  if (selector.ouNameRegex !== undefined && !new RegExp(selector.ouNameRegex).test(name)) {
+    return false;
+  }
+  return Object.entries(selector.tags ?? {}).every(([key, value]) => ou.tags?.[key] === value);
+}
+
+/**
+ * The first rule that matches the OU, in the order of config.rules.
+ */
+export function matchRule(
+  ou: OuNode,
+  rules: BudgetRule[] | undefined,
+): { name: string; budget: OuBudgetConfigEntry } | undefined {
+  const index = (rules ?? []).findIndex((rule) => matchesSelector(ou, rule.match));
+  return index === -1
+    ? undefined
+    : { name: ruleName(rules![index], index), budget: rules![index].budget };
+}
+
+/**
+ * An entry with only `amount: null`, as written by the init CLI, configures nothing.
+ */
+function isPlaceholderEntry(entry: OuBudgetConfigEntry): boolean {
+  return Object.entries(entry).every(
+    ([key, value]) => value === undefined || (key === 'amount' && value === null),
+  );
+}
+
+/**
+ * The config entry of an OU: its own entry in organizationalUnits wins over rules.
+ */
+function ouConfigEntry(
+  ou: OuNode,
+  config: BudgetConfig,
+): { entry: OuBudgetConfigEntry | undefined; rule?: string } {
+  const entry = config.organizationalUnits?.[ou.id];
+  if (entry && !isPlaceholderEntry(entry)) {
+    return { entry };
+  }
+  const rule = matchRule(ou, config.rules);
+  return { entry: rule?.budget, rule: rule?.name };
 }
 
 /**
@@ -100,6 +629,23 @@ export function validateBudgetConfig(config: BudgetConfig, knownOus: string[]) {
  *  - else inherit from parent OU
  *  - if no parent and no explicit config -> use config.default
  *
+ * The time unit is inherited like the amount: an OU that only sets a timeUnit
+ * keeps the budget of its parent, and an OU that only sets an amount keeps the
+ * time unit of its parent. Likewise, the fields an OU without an amount sets
+ * (subscribers, thresholds, filter, ...) are laid over the budget of its parent.
+ *
+ * The same holds for the other fields of an OU that sets an amount (currency,
+ * thresholds, filter, ...): each comes from the nearest ancestor that sets it.
+ * With config.inheritFields = false they come from config.default instead.
+ *
+ * Named budgets are resolved independently of the main budget and of each
+ * other: each name is taken from the nearest OU (or config.default) that
+ * declares it.
+ *
+ * OUs without an entry in organizationalUnits, or with only `amount: null`, use
+ * the first matching rule as their entry; the name of that rule is reported on
+ * their effective budget.
+ *
  * Important: root *of the organization* is not modeled here; we only see OUs.
  * OUs with parentId === null inherit directly from config.default unless they
  * have their own explicit entry.
@@ -109,6 +655,7 @@ export function computeEffectiveBudgets(
   config: BudgetConfig,
 ): Map<string, EffectiveBudget> {
   const result = new Map<string, EffectiveBudget>();
+  const matchedRules = new Map<string, string>();
 
   function resolve(ouId: string): EffectiveBudget {
     const cached = result.get(ouId);
@@ -118,25 +665,70 @@ export function computeEffectiveBudgets(
     if (!ou) {
       throw new Error(`Unknown OU id: ${ouId}`);
     }
-    if (!config.organizationalUnits) {
+    if (!config.organizationalUnits && !config.rules?.length) {
       // No per-OU config at all: use global default
       const eb: EffectiveBudget = {
         mode: 'on',
         amount: config.default.amount!,
         currency: config.default.currency ?? DEFAULT_CURRENCY,
         thresholds: config.default.thresholds!,
+        timeUnit: config.default.timeUnit,
+        filter: config.default.filter,
+        costTypes: config.default.costTypes,
+        subscribers: config.default.subscribers,
+        actions: config.default.actions,
+        aggregationSnsTopicArn: config.default.aggregationSnsTopicArn,
       };
       result.set(ouId, eb);
       return eb;
     }
-    const cfgEntry = config.organizationalUnits[ouId];
+    const { entry: cfgEntry, rule } = ouConfigEntry(ou, config);
+    if (rule) {
+      matchedRules.set(ouId, rule);
+    }
+    const parentBudget = ou.parentId !== null ? resolve(ou.parentId) : undefined;
+    const inheritedTimeUnit =
+      parentBudget && isBudgetOn(parentBudget) ? parentBudget.timeUnit : config.default.timeUnit;
+    const aggregationSnsTopicArn = resolveAggregationTopic(
+      cfgEntry,
+      parentBudget && isBudgetOn(parentBudget)
+        ? parentBudget.aggregationSnsTopicArn
+        : config.default.aggregationSnsTopicArn,
+    );
 
     if (cfgEntry?.amount) {
+      // Fields the entry doesn't set come from the parent budget, which already holds
+      // the value of the nearest ancestor that sets them (or of default). Without a
+      // default, the parent may have no amount and nothing to inherit.
+      const base =
+        config.inheritFields !== false &&
+        parentBudget &&
+        isBudgetOn(parentBudget) &&
+        parentBudget.amount
+          ? parentBudget
+          : {
+              currency: defaultCurrency(config),
+              thresholds: config.default.thresholds!,
+              filter: config.default.filter,
+              costTypes: config.default.costTypes,
+              subscribers: config.default.subscribers,
+              actions: config.default.actions,
+            };
       const eb: EffectiveBudget = {
         mode: 'on',
-        amount: cfgEntry.amount,
-        currency: cfgEntry.currency ?? config.default.currency ?? DEFAULT_CURRENCY,
-        thresholds: cfgEntry.thresholds ?? config.default.thresholds!,
+        amount: isRelativeAmount(cfgEntry.amount)
+          ? resolveRelativeAmount(ouId, cfgEntry.amount, parentBudget, config)
+          : cfgEntry.amount,
+        lookbackPeriods: cfgEntry.lookbackPeriods,
+        plannedBudgetLimits: cfgEntry.plannedBudgetLimits,
+        currency: cfgEntry.currency ?? base.currency,
+        thresholds: cfgEntry.thresholds ?? base.thresholds,
+        timeUnit: cfgEntry.timeUnit ?? inheritedTimeUnit,
+        filter: cfgEntry.filter ?? base.filter,
+        costTypes: cfgEntry.costTypes ?? base.costTypes,
+        subscribers: cfgEntry.subscribers ?? base.subscribers,
+        actions: cfgEntry.actions ?? base.actions,
+        aggregationSnsTopicArn,
       };
       result.set(ouId, eb);
       return eb;
@@ -149,23 +741,50 @@ export function computeEffectiveBudgets(
       }
     }
 
-    if (ou.parentId !== null) {
-      const parentBudget = resolve(ou.parentId);
-      result.set(ouId, parentBudget);
-      return parentBudget;
+    if (parentBudget) {
+      const eb: EffectiveBudget =
+        cfgEntry && setsBudgetFields(cfgEntry) && isBudgetOn(parentBudget)
+          ? overlayEntry(parentBudget, cfgEntry, aggregationSnsTopicArn)
+          : parentBudget;
+      result.set(ouId, eb);
+      return eb;
     }
 
-    // Top-level OU with no explicit config: use global default
-    const eb: EffectiveBudget = {
+    // Top-level OU without an amount: use global default
+    const defaultBudget: EffectiveBudgetOn = {
       mode: 'on',
       amount: config.default.amount!,
       currency: config.default.currency ?? DEFAULT_CURRENCY,
       thresholds: config.default.thresholds!,
+      timeUnit: config.default.timeUnit,
+      filter: config.default.filter,
+      costTypes: config.default.costTypes,
+      subscribers: config.default.subscribers,
+      actions: config.default.actions,
+      aggregationSnsTopicArn,
     };
+    const eb = cfgEntry
+      ? overlayEntry(defaultBudget, cfgEntry, aggregationSnsTopicArn)
+      : defaultBudget;
     result.set(ouId, eb);
     return eb;
   }
 
+  const namedConfigs = new Map<string, NamedBudgets>();
+
+  function resolveNamedConfigs(ouId: string): NamedBudgets {
+    const cached = namedConfigs.get(ouId);
+    if (cached) return cached;
+
+    const ou = tree.byId.get(ouId)!;
+    const inherited =
+      ou.parentId !== null ? resolveNamedConfigs(ou.parentId) : (config.default.budgets ?? {});
+    const own = ouConfigEntry(ou, config).entry?.budgets;
+    const merged = own ? { ...inherited, ...own } : inherited;
+    namedConfigs.set(ouId, merged);
+    return merged;
+  }
+
   const treeOuKeys = Array.from(tree.byId.keys());
   validateBudgetConfig(config, treeOuKeys);
 
@@ -173,6 +792,184 @@ export function computeEffectiveBudgets(
     resolve(ouId);
   }
 
+  // Main budgets may be shared between OUs, so named budgets and rules are added to copies.
+  for (const [ouId, eb] of result) {
+    const budgets = resolveNamedBudgets(resolveNamedConfigs(ouId), config);
+    if (budgets && isBudgetOn(eb)) {
+      result.set(ouId, { ...eb, budgets });
+    }
+    const rule = matchedRules.get(ouId);
+    if (rule) {
+      result.set(ouId, { ...result.get(ouId)!, rule });
+    }
+  }
+
+  // Subscribers and time units are inherited, so they are checked on the effective budgets.
+  // OUs with the same budget as their parent would only repeat the parent's problems.
+  const errors: ValidationErrors = [];
+  for (const [ouId, eb] of result) {
+    const parentId = tree.byId.get(ouId)!.parentId;
+    const parent = parentId !== null ? result.get(parentId) : undefined;
+    if (isBudgetOn(eb) && !(isCompatibleWith(eb, parent) && isCompatibleWith(parent, eb))) {
+      validateTimeUnit(`OU ${ouId}`, eb, errors);
+      validateSubscriberCounts(`OU ${ouId}`, eb, errors);
+    }
+  }
+  throwIfInvalid(errors);
+
+  return result;
+}
+
+/**
+ * Whether an entry without an amount sets any field of the budget it inherits.
+ */
+function setsBudgetFields(entry: OuBudgetConfigEntry): boolean {
+  return (
+    entry.currency !== undefined ||
+    entry.thresholds !== undefined ||
+    entry.timeUnit !== undefined ||
+    entry.filter !== undefined ||
+    entry.costTypes !== undefined ||
+    entry.subscribers !== undefined ||
+    entry.actions !== undefined ||
+    entry.aggregationSnsTopicArn !== undefined
+  );
+}
+
+/**
+ * Lay the fields an entry without an amount sets over the budget it inherits.
+ */
+function overlayEntry(
+  budget: EffectiveBudgetOn,
+  entry: OuBudgetConfigEntry,
+  aggregationSnsTopicArn: string | undefined,
+): EffectiveBudgetOn {
+  return {
+    ...budget,
+    currency: entry.currency ?? budget.currency,
+    thresholds: entry.thresholds ?? budget.thresholds,
+    timeUnit: entry.timeUnit ?? budget.timeUnit,
+    filter: entry.filter ?? budget.filter,
+    costTypes: entry.costTypes ?? budget.costTypes,
+    subscribers: entry.subscribers ?? budget.subscribers,
+    actions: entry.actions ?? budget.actions,
+    aggregationSnsTopicArn,
+  };
+}
+
+/**
+ * Resolve a percentage against the amount of the parent budget, or of default for
+ * the root, rounded to cents.
+ */
+function resolveRelativeAmount(
+  ouId: string,
+  amount: RelativeAmount,
+  parentBudget: EffectiveBudget | undefined,
+  config: BudgetConfig,
+): number {
+  const base = parentBudget
+    ? isBudgetOn(parentBudget)
+      ? parentBudget.amount
+      : undefined
+    : config.default.amount;
+  if (typeof base !== 'number') {
+    throw new Error(`OU ${ouId}: amount ${amount} needs a parent budget with a fixed amount`);
+  }
+  return Math.round(base * parseFloat(amount)) / 100;
+}
+
+/**
+ * Currency of entries that set neither a currency nor inherit one. A config without
+ * default has the disabled currency, which is no currency to create budgets in.
+ */
+function defaultCurrency(config: BudgetConfig): string {
+  const currency = config.default.currency;
+  return currency && currency !== DISABLED_CURRENCY ? currency : DEFAULT_CURRENCY;
+}
+
+/**
+ * An entry's own topic wins, null turns aggregation off; otherwise the topic is inherited.
+ */
+function resolveAggregationTopic(
+  entry: Pick<OuBudgetConfigEntry, 'aggregationSnsTopicArn'> | undefined,
+  inherited: string | undefined,
+): string | undefined {
+  if (entry?.aggregationSnsTopicArn === undefined) {
+    return inherited;
+  }
+  return entry.aggregationSnsTopicArn ?? undefined;
+}
+
+/**
+ * Fill in the fields a named budget doesn't set from config.default.
+ * The filter and budget type are specific to a named budget and are never taken from the default.
+ * Returns undefined if no named budget is enabled.
+ */
+function resolveNamedBudgets(
+  named: NamedBudgets,
+  config: BudgetConfig,
+): Record<string, BudgetSettings> | undefined {
+  const budgets: Record<string, BudgetSettings> = {};
+
+  for (const [name, budget] of Object.entries(named)) {
+    if (!budget) continue; // removed for this subtree
+    budgets[name] = {
+      amount: budget.amount,
+      currency: budget.currency ?? config.default.currency ?? DEFAULT_CURRENCY,
+      thresholds: budget.thresholds ?? config.default.thresholds,
+      timeUnit: budget.timeUnit ?? config.default.timeUnit,
+      filter: budget.filter,
+      costTypes: budget.costTypes ?? config.default.costTypes,
+      budgetType: budget.budgetType,
+      usageUnit: budget.usageUnit,
+    };
+  }
+
+  return Object.keys(budgets).length > 0 ? budgets : undefined;
+}
+
+/**
+ * Compute the effective budget for each account with an account-level entry.
+ *
+ * Accounts are not part of the OU tree, so fields that are not set on the
+ * account entry fall back to config.default (like a top-level OU would).
+ */
+export function computeAccountBudgets(config: BudgetConfig): Map<string, EffectiveBudget> {
+  const result = new Map<string, EffectiveBudget>();
+
+  for (const [accountId, entry] of Object.entries(config.accounts ?? {})) {
+    if (!entry || entry.off) {
+      result.set(accountId, { mode: 'off' });
+      continue;
+    }
+    const budgets = resolveNamedBudgets({ ...config.default.budgets, ...entry.budgets }, config);
+    result.set(accountId, {
+      mode: 'on',
+      // Relative amounts are rejected for accounts by validateBudgetConfig
+      amount: (entry.amount as BudgetAmount | null) ?? config.default.amount!,
+      lookbackPeriods: entry.lookbackPeriods,
+      plannedBudgetLimits: entry.plannedBudgetLimits,
+      currency: entry.currency ?? defaultCurrency(config),
+      thresholds: entry.thresholds ?? config.default.thresholds!,
+      timeUnit: entry.timeUnit ?? config.default.timeUnit,
+      filter: entry.filter ?? config.default.filter,
+      costTypes: entry.costTypes ?? config.default.costTypes,
+      subscribers: entry.subscribers ?? config.default.subscribers,
+      actions: entry.actions ?? config.default.actions,
+      budgets,
+      aggregationSnsTopicArn: resolveAggregationTopic(entry, config.default.aggregationSnsTopicArn),
+    });
+  }
+
+  const errors: ValidationErrors = [];
+  for (const [accountId, eb] of result) {
+    if (isBudgetOn(eb)) {
+      validateTimeUnit(`Account ${accountId}`, eb, errors);
+      validateSubscriberCounts(`Account ${accountId}`, eb, errors);
+    }
+  }
+  throwIfInvalid(errors);
+
   return result;
 }
 
@@ -188,8 +985,73 @@ function isEffectiveBudget(obj: unknown): obj is EffectiveBudget {
     return false;
   }
 
-  // amount is optional, but if present must be a number
-  if ('amount' in record && record.amount !== undefined && typeof record.amount !== 'number') {
+  // amount is optional, but if present must be a number or auto
+  if (
+    'amount' in record &&
+    record.amount !== undefined &&
+    typeof record.amount !== 'number' &&
+    record.amount !== AUTO_AMOUNT
+  ) {
+    return false;
+  }
+
+  // timeUnit is optional, but if present must be a string
+  if (
+    'timeUnit' in record &&
+    record.timeUnit !== undefined &&
+    typeof record.timeUnit !== 'string'
+  ) {
+    return false;
+  }
+
+  // filter is optional, but if present must be an object
+  if ('filter' in record && record.filter !== undefined && typeof record.filter !== 'object') {
+    return false;
+  }
+
+  // costTypes is optional, but if present must be an object
+  if (
+    'costTypes' in record &&
+    record.costTypes !== undefined &&
+    typeof record.costTypes !== 'object'
+  ) {
+    return false;
+  }
+
+  // plannedBudgetLimits is optional, but if present must be an object
+  if (
+    'plannedBudgetLimits' in record &&
+    record.plannedBudgetLimits !== undefined &&
+    typeof record.plannedBudgetLimits !== 'object'
+  ) {
+    return false;
+  }
+
+  // subscribers is optional, but if present must be an array
+  if (
+    'subscribers' in record &&
+    record.subscribers !== undefined &&
+    !Array.isArray(record.subscribers)
+  ) {
+    return false;
+  }
+
+  // actions is optional, but if present must be an array
+  if ('actions' in record && record.actions !== undefined && !Array.isArray(record.actions)) {
+    return false;
+  }
+
+  // aggregationSnsTopicArn is optional, but if present must be a string
+  if (
+    'aggregationSnsTopicArn' in record &&
+    record.aggregationSnsTopicArn !== undefined &&
+    typeof record.aggregationSnsTopicArn !== 'string'
+  ) {
+    return false;
+  }
+
+  // budgets is optional, but if present must be an object
+  if ('budgets' in record && record.budgets !== undefined && typeof record.budgets !== 'object') {
     return false;
   }
 
@@ -198,8 +1060,16 @@ function isEffectiveBudget(obj: unknown): obj is EffectiveBudget {
     if (!Array.isArray(record.thresholds)) {
       return false;
     }
-    // Validate each element is a number
-    if (!record.thresholds.every((threshold) => typeof threshold === 'number')) {
+    // Validate each element is a number or a threshold definition
+    if (
+      !record.thresholds.every(
+        (threshold) =>
+          typeof threshold === 'number' ||
+          (typeof threshold === 'object' &&
+            threshold !== null &&
+            typeof (threshold as Record<string, unknown>).value === 'number'),
+      )
+    ) {
       return false;
     }
   }
@@ -207,6 +1077,127 @@ function isEffectiveBudget(obj: unknown): obj is EffectiveBudget {
   return true;
 }
 
+/**
+ * Order-independent representation of subscribers, for comparison.
+ */
+function subscribersKey(subscribers: SubscriberConfig[] | undefined): string {
+  return JSON.stringify(
+    (subscribers ?? [])
+      .map((subscriber) =>
+        subscriber.email ? `email:${subscriber.email}` : `sns:${subscriber.snsTopicArn}`,
+      )
+      .sort(),
+  );
+}
+
+function thresholdsEqual(a: Thresholds, b: Thresholds): boolean {
+  return (
+    a.length === b.length &&
+    a.every((v, i) => {
+      const left = normalizeThreshold(v);
+      const right = normalizeThreshold(b[i]);
+      return (
+        left.value === right.value &&
+        left.thresholdType === right.thresholdType &&
+        left.notificationType === right.notificationType &&
+        subscribersKey(left.subscribers) === subscribersKey(right.subscribers)
+      );
+    })
+  );
+}
+
+/**
+ * Order-independent representation of a filter, for comparison.
+ */
+function filterKey(filter: BudgetFilter | undefined): string {
+  const sorted = (values: string[] | undefined) => (values ? [...values].sort() : []);
+  return JSON.stringify({
+    services: sorted(filter?.services),
+    regions: sorted(filter?.regions),
+    usageTypes: sorted(filter?.usageTypes),
+    tags: Object.keys(filter?.tags ?? {})
+      .sort()
+      .map((key) => [key, sorted(filter?.tags?.[key])]),
+  });
+}
+
+/**
+ * Order-independent representation of planned limits, for comparison.
+ */
+function plannedKey(limits: PlannedBudgetLimits | undefined): string {
+  return JSON.stringify(Object.entries(limits ?? {}).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Order-independent representation of budget actions, for comparison.
+ */
+function actionsKey(actions: BudgetActionConfig[] | undefined): string {
+  const sorted = (values: string[] | undefined) => (values ? [...values].sort() : []);
+  return JSON.stringify(
+    (actions ?? [])
+      .map((action) =>
+        JSON.stringify({
+          threshold: normalizeThreshold(action.threshold),
+          requireApproval: action.requireApproval ?? false,
+          applyIamPolicy: action.applyIamPolicy && {
+            policyArn: action.applyIamPolicy.policyArn,
+            roles: sorted(action.applyIamPolicy.roles),
+            groups: sorted(action.applyIamPolicy.groups),
+            users: sorted(action.applyIamPolicy.users),
+          },
+          stopInstances: action.stopInstances && {
+            service: action.stopInstances.service,
+            region: action.stopInstances.region,
+            instanceIds: sorted(action.stopInstances.instanceIds),
+          },
+        }),
+      )
+      .sort(),
+  );
+}
+
+function costTypesEqual(a: CostTypes | undefined, b: CostTypes | undefined): boolean {
+  const na = normalizeCostTypes(a);
+  const nb = normalizeCostTypes(b);
+  return (
+    na.includeCredit === nb.includeCredit &&
+    na.includeRefund === nb.includeRefund &&
+    na.includeTax === nb.includeTax &&
+    na.includeSupport === nb.includeSupport &&
+    na.includeUpfront === nb.includeUpfront &&
+    na.metric === nb.metric
+  );
+}
+
+function budgetSettingsEqual(a: BudgetSettings, b: BudgetSettings): boolean {
+  return (
+    a.amount === b.amount &&
+    a.lookbackPeriods === b.lookbackPeriods &&
+    plannedKey(a.plannedBudgetLimits) === plannedKey(b.plannedBudgetLimits) &&
+    a.currency === b.currency &&
+    (a.timeUnit ?? DEFAULT_TIME_UNIT) === (b.timeUnit ?? DEFAULT_TIME_UNIT) &&
+    thresholdsEqual(a.thresholds ?? [], b.thresholds ?? []) &&
+    filterKey(a.filter) === filterKey(b.filter) &&
+    costTypesEqual(a.costTypes, b.costTypes) &&
+    subscribersKey(a.subscribers) === subscribersKey(b.subscribers) &&
+    actionsKey(a.actions) === actionsKey(b.actions) &&
+    (a.budgetType ?? 'COST') === (b.budgetType ?? 'COST') &&
+    a.usageUnit === b.usageUnit
+  );
+}
+
+function namedBudgetsEqual(
+  a: Record<string, BudgetSettings> | undefined,
+  b: Record<string, BudgetSettings> | undefined,
+): boolean {
+  const aNames = Object.keys(a ?? {}).sort();
+  const bNames = Object.keys(b ?? {}).sort();
+  return (
+    aNames.length === bNames.length &&
+    aNames.every((name, i) => name === bNames[i] && budgetSettingsEqual(a![name], b![name]))
+  );
+}
+
 export function isCompatibleWith(a: unknown, b: unknown): boolean {
   if (!isEffectiveBudget(a) || !isEffectiveBudget(b)) {
     return false;
@@ -221,12 +1212,10 @@ export function isCompatibleWith(a: unknown, b: unknown): boolean {
     if (!b.amount) {
       return true; // b has no budget, so compatible with anything
     }
-    const arrayEqual = <T>(a: readonly T[], b: readonly T[]) =>
-      a.length === b.length && a.every((v, i) => v === b[i]);
     return (
-      a.amount === b.amount &&
-      a.currency === b.currency &&
-      arrayEqual(a.thresholds ?? [], b.thresholds ?? [])
+      budgetSettingsEqual(a, b) &&
+      namedBudgetsEqual(a.budgets, b.budgets) &&
+      a.aggregationSnsTopicArn === b.aggregationSnsTopicArn
     );
   }
   return false;
@@ -363,12 +1352,21 @@ export function selectOuBudgetAttachments(
 
     if (canCoverSubtree && !ancestorSelected) {
       const budget = effectiveBudgets.get(ouId)!;
-      if (budget.mode === 'on' && budget.amount && budget.amount > 0) {
+      if (budget.mode === 'on' && hasActiveAmount(budget)) {
         attachments.push({
           ouId,
           amount: budget.amount,
+          lookbackPeriods: budget.lookbackPeriods,
+          plannedBudgetLimits: budget.plannedBudgetLimits,
           currency: budget.currency,
           thresholds: budget.thresholds,
+          timeUnit: budget.timeUnit,
+          filter: budget.filter,
+          costTypes: budget.costTypes,
+          subscribers: budget.subscribers,
+          actions: budget.actions,
+          budgets: budget.budgets,
+          aggregationSnsTopicArn: budget.aggregationSnsTopicArn,
         });
       }
       return; // this OU covers its whole subtree
@@ -387,12 +1385,49 @@ export function selectOuBudgetAttachments(
   return attachments;
 }
 
+/**
+ * Select account-scoped attachments for accounts with an enabled budget.
+ *
+ * Account attachments target the organization root OU and are narrowed down
+ * to the single account, so we don't need to know which OU the account is in.
+ */
+export function selectAccountBudgetAttachments(
+  rootOuId: string,
+  accountBudgets: Map<string, EffectiveBudget>,
+): OuBudgetAttachment[] {
+  const attachments: OuBudgetAttachment[] = [];
+
+  for (const [accountId, budget] of accountBudgets) {
+    if (budget.mode === 'on' && hasActiveAmount(budget)) {
+      attachments.push({
+        ouId: rootOuId,
+        accountId,
+        amount: budget.amount,
+        lookbackPeriods: budget.lookbackPeriods,
+        plannedBudgetLimits: budget.plannedBudgetLimits,
+        currency: budget.currency,
+        thresholds: budget.thresholds,
+        timeUnit: budget.timeUnit,
+        filter: budget.filter,
+        costTypes: budget.costTypes,
+        subscribers: budget.subscribers,
+        actions: budget.actions,
+        budgets: budget.budgets,
+        aggregationSnsTopicArn: budget.aggregationSnsTopicArn,
+      });
+    }
+  }
+
+  return attachments;
+}
+
 /**
  * High-level orchestration:
  *  - build OU tree
  *  - compute effective budgets
  *  - compute homogeneous subtrees
  *  - select attachment OUs
+ *  - split off account-level overrides
  *
  * This is the function your CDK code will probably call, while the smaller
  * helpers are easy to unit-test in isolation.
@@ -404,5 +1439,17 @@ export function computeOuBudgetAttachments(
   const tree = buildOuTree(ous);
   const effectiveBudgets = computeEffectiveBudgets(tree, config);
   const homogeneous = maximalUniformSubtreeRoots(tree, effectiveBudgets);
-  return selectOuBudgetAttachments(tree, effectiveBudgets, new Set(homogeneous));
+  const attachments = selectOuBudgetAttachments(tree, effectiveBudgets, new Set(homogeneous));
+
+  const accountBudgets = computeAccountBudgets(config);
+  if (accountBudgets.size === 0) {
+    return attachments;
+  }
+
+  // Every account with an override (enabled or off) is excluded from the OU budgets.
+  const excludedAccountIds = Array.from(accountBudgets.keys());
+  return [
+    ...attachments.map((attachment) => ({ ...attachment, excludedAccountIds })),
+    ...selectAccountBudgetAttachments(tree.roots[0], accountBudgets),
+  ];
 }
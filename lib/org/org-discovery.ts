@@ -1,14 +1,41 @@
 // lib/org/org-discovery.ts
 import {
   OrganizationsClient,
+  DescribeOrganizationCommand,
+  ListAccountsForParentCommand,
   ListRootsCommand,
   ListOrganizationalUnitsForParentCommand,
+  ListTagsForResourceCommand,
 } from '@aws-sdk/client-organizations';
 
 export interface OuNode {
   id: string;
   parentId: string | null;
   name: string;
+  tags?: Partial<Record<string, string>>;
+}
+
+export interface AccountNode {
+  id: string;
+  name: string;
+  email: string;
+
+  /**
+   * ACTIVE, SUSPENDED, PENDING_CLOSURE, CLOSED, ...
+   */
+  status: string;
+
+  /**
+   * OU the account is in, or the root.
+   */
+  parentId: string;
+  tags?: Partial<Record<string, string>>;
+
+  /**
+   * Whether this is the management account of the organization. StackSets with
+   * service-managed permissions never deploy to it.
+   */
+  management: boolean;
 }
 
 export interface OrgRoot {
@@ -19,21 +46,54 @@ export interface OrgRoot {
 export interface OrgStructure {
   root: OrgRoot;
   ous: OuNode[];
+
+  /**
+   * Accounts in the root and all OUs. Missing in snapshots written before accounts were discovered.
+   */
+  accounts?: AccountNode[];
 }
 
 /**
- * Recursively list all OUs under the organization root.
+ * StackSets only deploy to ACTIVE accounts; suspended, closed and closing accounts fail.
+ */
+export const isInactiveAccount = (account: AccountNode): boolean => account.status !== 'ACTIVE';
+
+/**
+ * Recursively list all OUs under the organization root, and the accounts in them.
  * This is pure discovery; no config logic here.
  */
 export async function loadOrgStructure(): Promise<OrgStructure> {
   const client = new OrganizationsClient({});
 
+  const orgResp = await client.send(new DescribeOrganizationCommand({}));
+  const managementAccountId = orgResp.Organization?.MasterAccountId;
+
   const rootsResp = await client.send(new ListRootsCommand({}));
   const root = rootsResp.Roots?.[0];
   if (!root?.Id || !root.Name) {
     throw new Error('Could not find organization root');
   }
 
+  async function listTags(resourceId: string): Promise<Partial<Record<string, string>>> {
+    const tags: Partial<Record<string, string>> = {};
+    let nextToken: string | undefined;
+
+    do {
+      const resp = await client.send(
+        new ListTagsForResourceCommand({
+          ResourceId: resourceId,
+          NextToken: nextToken,
+        }),
+      );
+      for (const tag of resp.Tags ?? []) {
+        if (tag.Key) tags[tag.Key] = tag.Value ?? '';
+      }
+      nextToken = resp.NextToken;
+    } while (nextToken);
+
+    return tags;
+  }
+
   async function listChildren(parentId: string): Promise<OuNode[]> {
     const ous: OuNode[] = [];
     let nextToken: string | undefined;
@@ -53,6 +113,7 @@ export async function loadOrgStructure(): Promise<OrgStructure> {
           id: ou.Id,
           name: ou.Name,
           parentId,
+          tags: await listTags(ou.Id),
         });
 
         const childOus = await listChildren(ou.Id);
@@ -65,10 +126,49 @@ export async function loadOrgStructure(): Promise<OrgStructure> {
     return ous;
   }
 
+  async function listAccounts(parentId: string): Promise<AccountNode[]> {
+    const accounts: AccountNode[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const resp = await client.send(
+        new ListAccountsForParentCommand({
+          ParentId: parentId,
+          NextToken: nextToken,
+        }),
+      );
+
+      for (const account of resp.Accounts ?? []) {
+        if (!account.Id) continue;
+
+        accounts.push({
+          id: account.Id,
+          name: account.Name ?? '',
+          email: account.Email ?? '',
+          // State replaces the deprecated Status
+          status: account.State ?? account.Status ?? 'ACTIVE',
+          parentId,
+          tags: await listTags(account.Id),
+          management: account.Id === managementAccountId,
+        });
+      }
+
+      nextToken = resp.NextToken;
+    } while (nextToken);
+
+    return accounts;
+  }
+
   const ous = await listChildren(root.Id);
 
+  const accounts: AccountNode[] = [];
+  for (const parentId of [root.Id, ...ous.map((ou) => ou.id)]) {
+    accounts.push(...(await listAccounts(parentId)));
+  }
+
   return {
     root: { id: root.Id, name: root.Name },
-    ous: [{ id: root.Id, name: root.Name, parentId: null }, ...ous],
+    ous: [{ id: root.Id, name: root.Name, parentId: null, tags: await listTags(root.Id) }, ...ous],
+    accounts,
   };
 }
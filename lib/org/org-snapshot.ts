@@ -0,0 +1,148 @@
+// lib/org/org-snapshot.ts
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import log from 'loglevel';
+import {
+  type AccountNode,
+  type OrgStructure,
+  type OuNode,
+  loadOrgStructure,
+} from './org-discovery';
+
+/**
+ * A discovered OrgStructure saved to a JSON file, so that synth runs without
+ * Organizations credentials and gives the same result every time.
+ */
+export interface OrgSnapshot extends OrgStructure {
+  /**
+   * ISO 8601 time the organization was discovered.
+   */
+  createdAt: string;
+}
+
+export const DEFAULT_SNAPSHOT_MAX_AGE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Write the organization to a snapshot file.
+ */
+export function writeOrgSnapshot(path: string, org: OrgStructure, now = new Date()): OrgSnapshot {
+  const snapshot: OrgSnapshot = { createdAt: now.toISOString(), ...org };
+  writeFileSync(path, `${JSON.stringify(snapshot, null, 2)}\n`, 'utf8');
+  return snapshot;
+}
+
+function isStringRecord(value: unknown): value is Partial<Record<string, string>> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.values(value).every((tag) => typeof tag === 'string')
+  );
+}
+
+function isOuNode(value: unknown): value is OuNode {
+  if (value === null || typeof value !== 'object') return false;
+  const ou = value as Record<string, unknown>;
+  return (
+    typeof ou.id === 'string' &&
+    typeof ou.name === 'string' &&
+    (ou.parentId === null || typeof ou.parentId === 'string') &&
+    (ou.tags === undefined || isStringRecord(ou.tags))
+  );
+}
+
+function isAccountNode(value: unknown): value is AccountNode {
+  if (value === null || typeof value !== 'object') return false;
+  const account = value as Record<string, unknown>;
+  return (
+    typeof account.id === 'string' &&
+    typeof account.name === 'string' &&
+    typeof account.email === 'string' &&
+    typeof account.status === 'string' &&
+    typeof account.parentId === 'string' &&
+    typeof account.management === 'boolean' &&
+    (account.tags === undefined || isStringRecord(account.tags))
+  );
+}
+
+function isOrgSnapshot(value: unknown): value is OrgSnapshot {
+  if (value === null || typeof value !== 'object') return false;
+  const snapshot = value as Record<string, unknown>;
+  const root = snapshot.root as Record<string, unknown> | null | undefined;
+  return (
+    typeof snapshot.createdAt === 'string' &&
+    !Number.isNaN(Date.parse(snapshot.createdAt)) &&
+    typeof root?.id === 'string' &&
+    typeof root.name === 'string' &&
+    Array.isArray(snapshot.ous) &&
+    snapshot.ous.every(isOuNode) &&
+    (snapshot.accounts === undefined ||
+      (Array.isArray(snapshot.accounts) && snapshot.accounts.every(isAccountNode)))
+  );
+}
+
+/**
+ * Read a snapshot written by writeOrgSnapshot.
+ */
+export function readOrgSnapshot(path: string): OrgSnapshot {
+  if (!existsSync(path)) {
+    throw new Error(`Organization snapshot not found at ${path}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to parse organization snapshot JSON at ${path}`, { cause: err });
+  }
+  if (!isOrgSnapshot(parsed)) {
+    throw new Error(
+      `Invalid organization snapshot ${path}: expected createdAt, root and ous ` +
+        'as written by "budget-alerts-init-config snapshot"',
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Age of a snapshot in days, fractional.
+ */
+export function snapshotAgeDays(snapshot: OrgSnapshot, now = new Date()): number {
+  return (now.getTime() - Date.parse(snapshot.createdAt)) / DAY_MS;
+}
+
+export interface OrgSourceOptions {
+  /**
+   * Snapshot file to read the organization from. If unset, the organization is
+   * discovered through the Organizations API.
+   */
+  snapshotPath?: string;
+
+  /**
+   * Snapshots older than this are used with a warning. Defaults to DEFAULT_SNAPSHOT_MAX_AGE_DAYS.
+   */
+  maxAgeDays?: number;
+
+  now?: Date;
+}
+
+/**
+ * The organization from a snapshot, if one is given, or from the Organizations API.
+ */
+export async function loadOrgStructureFrom(options: OrgSourceOptions = {}): Promise<OrgStructure> {
+  const { snapshotPath, maxAgeDays = DEFAULT_SNAPSHOT_MAX_AGE_DAYS, now = new Date() } = options;
+  if (snapshotPath === undefined) {
+    return loadOrgStructure();
+  }
+
+  const snapshot = readOrgSnapshot(snapshotPath);
+  const age = snapshotAgeDays(snapshot, now);
+  if (age > maxAgeDays) {
+    log.warn(
+      `Organization snapshot ${snapshotPath} is ${Math.floor(age)} days old ` +
+        `(created ${snapshot.createdAt}), older than ${maxAgeDays} days. ` +
+        'Run "npx budget-alerts-init-config snapshot" to refresh it.',
+    );
+  }
+  const { createdAt: _createdAt, ...org } = snapshot;
+  return org;
+}
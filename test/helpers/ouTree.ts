@@ -14,12 +14,14 @@ interface DefaultBudget {
 export function makeConfig(input: {
   default?: DefaultBudget;
   organizationalUnits?: BudgetConfig['organizationalUnits'];
+  inheritFields?: boolean;
 }): BudgetConfig {
   const organizationalUnits = input.organizationalUnits ?? {};
 
   return sanitizeBudgetConfig({
     default: input.default,
     organizationalUnits,
+    inheritFields: input.inheritFields,
   });
 }
 
@@ -1,11 +1,13 @@
 /* eslint-disable @typescript-eslint/no-empty-function */
 import { handler } from '../../lib/budget-alerts-stack.forward-sns-message';
 import { SNSClient, PublishCommand, type PublishCommandInput } from '@aws-sdk/client-sns';
+import { ListParentsCommand, OrganizationsClient } from '@aws-sdk/client-organizations';
 import { mockClient } from 'aws-sdk-client-mock';
 import type { Context, SQSEvent } from 'aws-lambda';
 import { sqsEvent, type SqsEventRecordInput } from '../helpers/wrapped-events';
 
 const snsMock = mockClient(SNSClient);
+const orgMock = mockClient(OrganizationsClient);
 
 describe('forward-sns-message Lambda', () => {
   const originalEnv = process.env;
@@ -13,6 +15,7 @@ describe('forward-sns-message Lambda', () => {
 
   beforeEach(() => {
     snsMock.reset();
+    orgMock.reset();
     process.env = { ...originalEnv };
     process.env.TARGET_SNS_TOPIC_ARN = TARGET_TOPIC_ARN;
   });
@@ -154,4 +157,84 @@ describe('forward-sns-message Lambda', () => {
       expect(snsMock.calls()).toHaveLength(3);
     });
   });
+
+  describe('routing by OU', () => {
+    const RETAIL_TOPIC_ARN = 'arn:aws:sns:us-east-1:123456789012:retail';
+    const ACCOUNT_TOPIC_ARN = 'arn:aws:sns:us-east-1:123456789012:account';
+
+    const budgetNotification = (accountId: string): SQSEvent => ({
+      Records: [
+        {
+          ...exampleEvent.Records[0],
+          body: `AWS Budget Notification February 17, 2026\nAWS Account ${accountId}\n\nDear AWS Customer,\n`,
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      snsMock.on(PublishCommand).resolves({ MessageId: 'new-message-id' });
+      process.env.TOPIC_ROUTES = JSON.stringify({
+        'ou-retail': RETAIL_TOPIC_ARN,
+        '555555555555': ACCOUNT_TOPIC_ARN,
+      });
+      orgMock
+        .on(ListParentsCommand, { ChildId: '111111111111' })
+        .resolves({ Parents: [{ Id: 'ou-shop', Type: 'ORGANIZATIONAL_UNIT' }] })
+        .on(ListParentsCommand, { ChildId: 'ou-shop' })
+        .resolves({ Parents: [{ Id: 'ou-retail', Type: 'ORGANIZATIONAL_UNIT' }] })
+        .on(ListParentsCommand, { ChildId: '222222222222' })
+        .resolves({ Parents: [{ Id: 'r-root', Type: 'ROOT' }] });
+    });
+
+    it('should publish to the topic of the closest routed OU', async () => {
+      await handler(budgetNotification('111111111111'), createMockContext());
+
+      expect(snsMock.call(0).args[0].input).toMatchObject({ TopicArn: RETAIL_TOPIC_ARN });
+      expect(orgMock.commandCalls(ListParentsCommand)).toHaveLength(2);
+    });
+
+    it('should prefer a route of the account itself', async () => {
+      await handler(budgetNotification('555555555555'), createMockContext());
+
+      expect(snsMock.call(0).args[0].input).toMatchObject({ TopicArn: ACCOUNT_TOPIC_ARN });
+      expect(orgMock.commandCalls(ListParentsCommand)).toHaveLength(0);
+    });
+
+    it('should fall back to the default topic for accounts without a route', async () => {
+      await handler(budgetNotification('222222222222'), createMockContext());
+
+      expect(snsMock.call(0).args[0].input).toMatchObject({ TopicArn: TARGET_TOPIC_ARN });
+    });
+
+    it('should look up accounts without a route again once the cache expires', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      orgMock
+        .on(ListParentsCommand, { ChildId: '333333333333' })
+        .resolves({ Parents: [{ Id: 'r-root', Type: 'ROOT' }] });
+      await handler(budgetNotification('333333333333'), createMockContext());
+
+      // Moved into the routed OU
+      orgMock
+        .on(ListParentsCommand, { ChildId: '333333333333' })
+        .resolves({ Parents: [{ Id: 'ou-retail', Type: 'ORGANIZATIONAL_UNIT' }] });
+      await handler(budgetNotification('333333333333'), createMockContext());
+      now.mockReturnValue(15 * 60 * 1000 + 1);
+      await handler(budgetNotification('333333333333'), createMockContext());
+      now.mockRestore();
+
+      const topics = snsMock
+        .calls()
+        .map((call) => (call.args[0].input as PublishCommandInput).TopicArn);
+      expect(topics).toEqual([TARGET_TOPIC_ARN, TARGET_TOPIC_ARN, RETAIL_TOPIC_ARN]);
+      expect(orgMock.commandCalls(ListParentsCommand)).toHaveLength(2);
+    });
+
+    it('should drop messages without a route if there is no default topic', async () => {
+      delete process.env.TARGET_SNS_TOPIC_ARN;
+
+      await handler(budgetNotification('222222222222'), createMockContext());
+
+      expect(snsMock.calls()).toHaveLength(0);
+    });
+  });
 });
@@ -3,6 +3,8 @@
 // the client is created at module load time and we call jest.clearAllMocks().
 const sendMock = jest.fn();
 
+const accountSendMock = jest.fn();
+
 jest.mock('@aws-sdk/client-organizations', () => {
   return {
     __esModule: true,
@@ -10,11 +12,25 @@ jest.mock('@aws-sdk/client-organizations', () => {
       send: sendMock,
     })),
     DescribeAccountCommand: jest.fn(), // we only assert call args
+    ListTagsForResourceCommand: jest.fn(),
+  };
+});
+
+jest.mock('@aws-sdk/client-account', () => {
+  class ResourceNotFoundException extends Error {}
+  return {
+    __esModule: true,
+    AccountClient: jest.fn(() => ({
+      send: accountSendMock,
+    })),
+    GetAlternateContactCommand: jest.fn(),
+    ResourceNotFoundException,
   };
 });
 
 // Import AFTER the mock so the Lambda file uses our mocked client.
-import { DescribeAccountCommand } from '@aws-sdk/client-organizations';
+import { GetAlternateContactCommand, ResourceNotFoundException } from '@aws-sdk/client-account';
+import { DescribeAccountCommand, ListTagsForResourceCommand } from '@aws-sdk/client-organizations';
 import { handler } from '../../lib/budget-alerts-stack.get-mail';
 
 describe('DescribeAccountEmail custom resource handler', () => {
@@ -87,6 +103,7 @@ describe('DescribeAccountEmail custom resource handler', () => {
       PhysicalResourceId: `DescribeAccountEmail-${accountId}`,
       Data: {
         Email: 'owner@example.com',
+        EmailSource: 'ROOT_EMAIL',
       },
     });
 
@@ -122,6 +139,7 @@ describe('DescribeAccountEmail custom resource handler', () => {
       PhysicalResourceId: `DescribeAccountEmail-${accountId}`,
       Data: {
         Email: 'update-owner@example.com',
+        EmailSource: 'ROOT_EMAIL',
       },
     });
 
@@ -154,4 +172,87 @@ describe('DescribeAccountEmail custom resource handler', () => {
     expect(DescribeAccountCommand).toHaveBeenCalledWith({ AccountId: accountId });
     expect(sendMock).toHaveBeenCalledTimes(1);
   });
+
+  describe('recipient resolution chain', () => {
+    const accountId = '444455556666';
+    const event = {
+      RequestType: 'Create' as const,
+      ResourceProperties: {
+        AccountId: accountId,
+        RecipientSources: ['BILLING_CONTACT', 'ACCOUNT_TAG', 'ROOT_EMAIL'],
+      },
+    };
+
+    it('prefers the billing alternate contact', async () => {
+      accountSendMock.mockResolvedValue({
+        AlternateContact: { EmailAddress: 'billing@example.com' },
+      });
+
+      const result = await handler(event, {});
+
+      expect(result.Data).toEqual({ Email: 'billing@example.com', EmailSource: 'BILLING_CONTACT' });
+      expect(GetAlternateContactCommand).toHaveBeenCalledWith({
+        AccountId: accountId,
+        AlternateContactType: 'BILLING',
+      });
+      expect(sendMock).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the account tag when there is no billing contact', async () => {
+      accountSendMock.mockRejectedValue(
+        new ResourceNotFoundException({ message: 'no contact', $metadata: {} }),
+      );
+      sendMock.mockResolvedValue({
+        Tags: [
+          { Key: 'team', Value: 'platform' },
+          { Key: 'cost-owner', Value: 'owner@example.com' },
+        ],
+      });
+
+      const result = await handler(
+        {
+          ...event,
+          ResourceProperties: { ...event.ResourceProperties, RecipientTagKey: 'cost-owner' },
+        },
+        {},
+      );
+
+      expect(result.Data).toEqual({ Email: 'owner@example.com', EmailSource: 'ACCOUNT_TAG' });
+      expect(ListTagsForResourceCommand).toHaveBeenCalledWith({ ResourceId: accountId });
+    });
+
+    it('falls back to the root email when neither contact nor tag exist', async () => {
+      accountSendMock.mockRejectedValue(
+        new ResourceNotFoundException({ message: 'no contact', $metadata: {} }),
+      );
+      sendMock
+        .mockResolvedValueOnce({ Tags: [] })
+        .mockResolvedValueOnce({ Account: { Email: 'root@example.com' } });
+
+      const result = await handler(event, {});
+
+      expect(result.Data).toEqual({ Email: 'root@example.com', EmailSource: 'ROOT_EMAIL' });
+    });
+
+    it('does not hide other errors of the billing contact lookup', async () => {
+      accountSendMock.mockRejectedValue(new Error('AccessDenied'));
+
+      await expect(handler(event, {})).rejects.toThrow('AccessDenied');
+      expect(sendMock).not.toHaveBeenCalled();
+    });
+
+    it('throws when no source yields an email', async () => {
+      sendMock.mockResolvedValue({ Tags: [] });
+
+      await expect(
+        handler(
+          {
+            ...event,
+            ResourceProperties: { AccountId: accountId, RecipientSources: ['ACCOUNT_TAG'] },
+          },
+          {},
+        ),
+      ).rejects.toThrow(`Could not find a recipient email for account ID: ${accountId}`);
+    });
+  });
 });
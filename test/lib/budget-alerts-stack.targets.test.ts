@@ -235,4 +235,50 @@ describe('BudgetAlertsStack – StackSet target OU IDs', () => {
     expect(ouIdsInTemplate).toEqual(expectedOuIds);
     expect(new Set(expectedOuIds)).toEqual(new Set(['finance-common', 'payroll']));
   });
+
+  it('excludes overridden accounts from OU targets and targets them individually', () => {
+    // Root
+    // └─ Prod (50)
+    //    └─ 111111111111 (500)
+    const orgOus: OuNode[] = [
+      { id: 'root', parentId: null },
+      { id: 'prod', parentId: 'root' },
+    ];
+
+    const config: BudgetConfig = {
+      default: { amount: 10, currency: 'USD' },
+      organizationalUnits: {
+        prod: { amount: 50, currency: 'USD' },
+      },
+      accounts: {
+        '111111111111': { amount: 500, currency: 'USD' },
+      },
+    };
+
+    const stack = synthStack(orgOus, config);
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties(STACKSET_RESOURCE_TYPE, {
+      StackInstancesGroup: [
+        {
+          DeploymentTargets: {
+            OrganizationalUnitIds: ['prod'],
+            AccountFilterType: 'DIFFERENCE',
+            Accounts: ['111111111111'],
+          },
+        },
+      ],
+    });
+    template.hasResourceProperties(STACKSET_RESOURCE_TYPE, {
+      StackInstancesGroup: [
+        {
+          DeploymentTargets: {
+            OrganizationalUnitIds: ['root'],
+            AccountFilterType: 'INTERSECTION',
+            Accounts: ['111111111111'],
+          },
+        },
+      ],
+    });
+  });
 });
@@ -3,6 +3,8 @@ import { computeOuBudgetAttachments, type OuNode } from '../../lib/org/budget-pl
 import { type BudgetConfig } from '../../lib/org/budget-config';
 import { App, type Stack } from 'aws-cdk-lib';
 import { Match, Template } from 'aws-cdk-lib/assertions';
+import { readFileSync } from 'fs';
+import { join } from 'path';
 
 const STACKSET_RESOURCE_TYPE = 'AWS::CloudFormation::StackSet';
 
@@ -17,6 +19,20 @@ function synthStack(orgOus: OuNode[], budgetConfig: BudgetConfig): Stack {
   });
 }
 
+/**
+ * Helper: the bundled code of the function that forwards alerts to the aggregation topics
+ */
+function forwarderBundle(stack: Stack, template: Template): string {
+  const [forwarder] = Object.values(
+    template.findResources('AWS::Lambda::Function', {
+      Properties: { FunctionName: 'ForwardBudgetAlertMessagesFn' },
+    }),
+  ) as { Properties: { Code: { S3Key: string } } }[];
+  const assetHash = forwarder.Properties.Code.S3Key.replace(/\.zip$/, '');
+  const outdir = (stack.node.root as App).outdir;
+  return readFileSync(join(outdir, `asset.${assetHash}`, 'index.js'), 'utf8');
+}
+
 /**
  * Helper: count StackSet resources in a synthesized template
  */
@@ -153,6 +169,29 @@ describe('BudgetAlertsStack (CDK)', () => {
     expect(countStackSets(template)).toBe(1);
   });
 
+  it('allows the email lookup to read the configured recipient sources', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 10,
+        currency: 'USD',
+        recipientSources: ['BILLING_CONTACT', 'ACCOUNT_TAG', 'ROOT_EMAIL'],
+      },
+    };
+
+    const template = Template.fromStack(synthStack(orgOus, config));
+
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: 'account:GetAlternateContact' }),
+          Match.objectLike({ Action: 'organizations:ListTagsForResource' }),
+        ]),
+      },
+    });
+  });
+
   describe('SNS forwarding', () => {
     it('generates a Lambda function with the correct environment variable', () => {
       const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
@@ -321,5 +360,62 @@ describe('BudgetAlertsStack (CDK)', () => {
         },
       });
     });
+
+    it('routes OUs with their own topic and may publish to every topic', () => {
+      const orgOus: OuNode[] = [
+        { id: 'root', parentId: null },
+        { id: 'retail', parentId: 'root' },
+        { id: 'sandbox', parentId: 'root' },
+      ];
+      const defaultTopic = 'arn:aws:sns:us-east-1:123456789012:BudgetAlerts';
+      const retailTopic = 'arn:aws:sns:us-east-1:123456789012:RetailAlerts';
+
+      const config: BudgetConfig = {
+        default: { amount: 10, currency: 'USD', aggregationSnsTopicArn: defaultTopic },
+        organizationalUnits: {
+          retail: { amount: 10, aggregationSnsTopicArn: retailTopic },
+        },
+      };
+
+      const stack = synthStack(orgOus, config);
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'ForwardBudgetAlertMessagesFn',
+        Environment: { Variables: { TARGET_SNS_TOPIC_ARN: defaultTopic } },
+      });
+      // Only OUs that don't use the default topic are routed
+      expect(forwarderBundle(stack, template)).toContain(JSON.stringify({ retail: retailTopic }));
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: 'sns:Publish', Resource: [retailTopic, defaultTopic] }),
+            Match.objectLike({ Action: 'organizations:ListParents' }),
+          ]),
+        },
+      });
+    });
+
+    it('routes accounts with the default topic if they may be inside a routed OU', () => {
+      const orgOus: OuNode[] = [
+        { id: 'root', parentId: null },
+        { id: 'retail', parentId: 'root' },
+        { id: 'sandbox', parentId: 'root' },
+      ];
+      const defaultTopic = 'arn:aws:sns:us-east-1:123456789012:BudgetAlerts';
+      const retailTopic = 'arn:aws:sns:us-east-1:123456789012:RetailAlerts';
+
+      const stack = synthStack(orgOus, {
+        default: { amount: 10, currency: 'USD', aggregationSnsTopicArn: defaultTopic },
+        organizationalUnits: {
+          retail: { amount: 10, aggregationSnsTopicArn: retailTopic },
+        },
+        accounts: { '111111111111': { amount: 5 } },
+      });
+
+      expect(forwarderBundle(stack, Template.fromStack(stack))).toContain(
+        JSON.stringify({ retail: retailTopic, '111111111111': defaultTopic }),
+      );
+    });
   });
 });
@@ -1,7 +1,7 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as cdk from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
+import { Match, Template } from 'aws-cdk-lib/assertions';
 import { BudgetAlertsStack } from '../../lib/budget-alerts-stack';
 import { computeOuBudgetAttachments, type OuNode } from '../../lib/org/budget-planner';
 import type { BudgetConfig } from '../../lib/org/budget-config';
@@ -241,4 +241,438 @@ describe('BudgetAlertsStack – budget wiring in nested templates', () => {
       },
     ]);
   });
+
+  it('renders actual and forecasted thresholds as notifications', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 10,
+        currency: 'USD',
+        thresholds: [75, { value: 100, notificationType: 'FORECASTED' }],
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const budget = extractBudgetResource(loadNestedTemplate(nestedPaths[0]));
+
+    expect(budget).toMatchObject({
+      Properties: {
+        NotificationsWithSubscribers: [
+          {
+            Notification: {
+              NotificationType: 'ACTUAL',
+              Threshold: 75,
+              ThresholdType: 'PERCENTAGE',
+            },
+          },
+          {
+            Notification: {
+              NotificationType: 'FORECASTED',
+              Threshold: 100,
+              ThresholdType: 'PERCENTAGE',
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('renders absolute thresholds with the ABSOLUTE_VALUE threshold type', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 1000,
+        currency: 'EUR',
+        thresholds: [{ value: 500, thresholdType: 'ABSOLUTE_VALUE' }],
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const budget = extractBudgetResource(loadNestedTemplate(nestedPaths[0]));
+
+    expect(budget).toMatchObject({
+      Properties: {
+        NotificationsWithSubscribers: [
+          {
+            Notification: {
+              NotificationType: 'ACTUAL',
+              Threshold: 500,
+              ThresholdType: 'ABSOLUTE_VALUE',
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('injects the configured time unit and defaults to MONTHLY', () => {
+    const orgOus: OuNode[] = [
+      { id: 'root', parentId: null },
+      { id: 'sandbox', parentId: 'root' },
+      { id: 'prod', parentId: 'root' },
+    ];
+
+    const config: BudgetConfig = {
+      default: { amount: 10, currency: 'USD' },
+      organizationalUnits: {
+        sandbox: { amount: 5, currency: 'USD', timeUnit: 'DAILY' },
+        prod: { amount: 50, currency: 'USD' },
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const timeUnits = nestedPaths
+      .map(loadNestedTemplate)
+      .map(extractBudgetResource)
+      .map((budget) => budget?.Properties?.Budget?.TimeUnit)
+      .sort();
+
+    expect(timeUnits).toEqual(['DAILY', 'MONTHLY']);
+  });
+
+  it('synthesizes one budget per named budget', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+        budgets: {
+          ec2: { amount: 40, currency: 'USD' },
+          'data-transfer': { amount: 10, currency: 'USD' },
+        },
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const nested = loadNestedTemplate(nestedPaths[0]);
+    const budgets = Object.values(nested.Resources ?? {})
+      .filter(isBudgetResource)
+      .map((budget) => budget.Properties?.Budget);
+
+    expect(budgets).toHaveLength(3);
+    expect(budgets).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ BudgetLimit: { Amount: 100, Unit: 'USD' } }),
+        expect.objectContaining({ BudgetName: 'ec2', BudgetLimit: { Amount: 40, Unit: 'USD' } }),
+        expect.objectContaining({
+          BudgetName: 'data-transfer',
+          BudgetLimit: { Amount: 10, Unit: 'USD' },
+        }),
+      ]),
+    );
+  });
+
+  it('combines the credit exclusion with the configured filter', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+        filter: {
+          services: ['Amazon Simple Storage Service'],
+          regions: ['eu-central-1'],
+          tags: { team: ['data', 'ml'] },
+        },
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const budget = extractBudgetResource(loadNestedTemplate(nestedPaths[0]));
+
+    expect(budget?.Properties?.Budget?.FilterExpression).toEqual({
+      And: [
+        { Not: { Dimensions: { Key: 'RECORD_TYPE', Values: ['Credit'] } } },
+        { Dimensions: { Key: 'SERVICE', Values: ['Amazon Simple Storage Service'] } },
+        { Dimensions: { Key: 'REGION', Values: ['eu-central-1'] } },
+        { Tags: { Key: 'team', Values: ['data', 'ml'] } },
+      ],
+    });
+  });
+
+  it('renders the configured cost types', () => {
+    const orgOus: OuNode[] = [
+      { id: 'root', parentId: null },
+      { id: 'prod', parentId: 'root' },
+      { id: 'sandbox', parentId: 'root' },
+    ];
+
+    const config: BudgetConfig = {
+      default: { amount: 10, currency: 'USD' },
+      organizationalUnits: {
+        prod: {
+          amount: 50,
+          costTypes: { includeRefund: false, includeTax: false, metric: 'AmortizedCost' },
+        },
+        sandbox: { amount: 5, costTypes: { includeCredit: true } },
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const budgets = nestedPaths
+      .map(loadNestedTemplate)
+      .map(extractBudgetResource)
+      .map((budget) => budget?.Properties?.Budget);
+
+    expect(budgets).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          BudgetLimit: { Amount: 50, Unit: 'USD' },
+          Metrics: ['AmortizedCost'],
+          FilterExpression: {
+            Not: { Dimensions: { Key: 'RECORD_TYPE', Values: ['Credit', 'Refund', 'Tax'] } },
+          },
+        }),
+      ]),
+    );
+    const sandbox = budgets.find((budget) => budget?.BudgetLimit?.Amount === 5);
+    expect(sandbox).not.toHaveProperty('FilterExpression');
+    expect(sandbox).not.toHaveProperty('Metrics');
+  });
+
+  it('renders usage and coverage budgets', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+        thresholds: [100],
+        budgets: {
+          'ec2-hours': {
+            amount: 2000,
+            budgetType: 'USAGE',
+            usageUnit: 'Hrs',
+            filter: { usageTypes: ['EUC1-BoxUsage:t3.micro'] },
+          },
+          'sp-coverage': { amount: 80, budgetType: 'SAVINGS_PLANS_COVERAGE' },
+        },
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const nested = loadNestedTemplate(nestedPaths[0]);
+    const budgets = Object.values(nested.Resources ?? {})
+      .filter(isBudgetResource)
+      .map((budget) => budget.Properties);
+
+    const usage = budgets.find((budget) => budget?.Budget?.BudgetName === 'ec2-hours');
+    expect(usage?.Budget).toMatchObject({
+      BudgetType: 'USAGE',
+      BudgetLimit: { Amount: 2000, Unit: 'Hrs' },
+      FilterExpression: {
+        Dimensions: { Key: 'USAGE_TYPE', Values: ['EUC1-BoxUsage:t3.micro'] },
+      },
+    });
+
+    const coverage = budgets.find((budget) => budget?.Budget?.BudgetName === 'sp-coverage');
+    expect(coverage?.Budget).toMatchObject({ BudgetType: 'SAVINGS_PLANS_COVERAGE' });
+    expect(coverage?.Budget).not.toHaveProperty('BudgetLimit');
+    expect(coverage?.Budget).not.toHaveProperty('FilterExpression');
+    expect(coverage?.NotificationsWithSubscribers).toEqual([
+      expect.objectContaining({
+        Notification: {
+          NotificationType: 'ACTUAL',
+          ComparisonOperator: 'LESS_THAN',
+          Threshold: 80,
+          ThresholdType: 'PERCENTAGE',
+        },
+      }),
+    ]);
+  });
+
+  it('renders auto amounts as historical auto-adjust data', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: {
+        root: { amount: 'auto', lookbackPeriods: 6 },
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const budget = extractBudgetResource(loadNestedTemplate(nestedPaths[0]))?.Properties?.Budget;
+
+    expect(budget).toMatchObject({
+      AutoAdjustData: {
+        AutoAdjustType: 'HISTORICAL',
+        HistoricalOptions: { BudgetAdjustmentPeriod: 6 },
+      },
+    });
+    expect(budget).not.toHaveProperty('BudgetLimit');
+  });
+
+  it('renders twelve planned monthly limits starting with the current month', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2025, 10, 15));
+
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: {
+        root: { amount: 100, plannedBudgetLimits: { '2025-12': 300, '2026-10': 50 } },
+      },
+    };
+
+    try {
+      const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+      const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+      const budget = extractBudgetResource(loadNestedTemplate(nestedPaths[0]))?.Properties?.Budget;
+      const planned = budget?.PlannedBudgetLimits as Record<string, BudgetLimit>;
+
+      expect(budget).not.toHaveProperty('BudgetLimit');
+      expect(Object.keys(planned)).toHaveLength(12);
+      expect(planned[String(Date.UTC(2025, 10, 1) / 1000)]).toEqual({ Amount: 100, Unit: 'USD' });
+      expect(planned[String(Date.UTC(2025, 11, 1) / 1000)]).toEqual({ Amount: 300, Unit: 'USD' });
+      expect(planned[String(Date.UTC(2026, 9, 1) / 1000)]).toEqual({ Amount: 50, Unit: 'USD' });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('synthesizes budget actions with an execution role', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+        actions: [
+          {
+            threshold: 100,
+            requireApproval: true,
+            applyIamPolicy: {
+              policyArn: 'arn:aws:iam::aws:policy/AWSDenyAll',
+              roles: ['developer'],
+            },
+          },
+          {
+            threshold: { value: 120, notificationType: 'FORECASTED' },
+            stopInstances: { service: 'EC2', region: 'eu-west-1', instanceIds: ['i-0abc'] },
+          },
+        ],
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const template = Template.fromJSON(loadNestedTemplate(nestedPaths[0]));
+
+    template.resourceCountIs('AWS::Budgets::BudgetsAction', 2);
+    template.hasResourceProperties('AWS::Budgets::BudgetsAction', {
+      ActionType: 'APPLY_IAM_POLICY',
+      ApprovalModel: 'MANUAL',
+      NotificationType: 'ACTUAL',
+      ActionThreshold: { Type: 'PERCENTAGE', Value: 100 },
+      Definition: {
+        IamActionDefinition: {
+          PolicyArn: 'arn:aws:iam::aws:policy/AWSDenyAll',
+          Roles: ['developer'],
+        },
+      },
+    });
+    template.hasResourceProperties('AWS::Budgets::BudgetsAction', {
+      ActionType: 'RUN_SSM_DOCUMENTS',
+      ApprovalModel: 'AUTOMATIC',
+      NotificationType: 'FORECASTED',
+      Definition: {
+        SsmActionDefinition: {
+          Subtype: 'STOP_EC2_INSTANCES',
+          Region: 'eu-west-1',
+          InstanceIds: ['i-0abc'],
+        },
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Role', {
+      AssumeRolePolicyDocument: {
+        Statement: [Match.objectLike({ Principal: { Service: 'budgets.amazonaws.com' } })],
+      },
+    });
+  });
+
+  it('adds the configured subscribers to the notifications', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+        subscribers: [{ email: 'lead@example.com' }],
+        thresholds: [
+          75,
+          {
+            value: 100,
+            subscribers: [{ snsTopicArn: 'arn:aws:sns:eu-central-1:111122223333:finance' }],
+          },
+        ],
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const budget = extractBudgetResource(loadNestedTemplate(nestedPaths[0]));
+    const notifications = budget?.Properties?.NotificationsWithSubscribers as {
+      Subscribers: unknown[];
+    }[];
+
+    const lead = { SubscriptionType: 'EMAIL', Address: 'lead@example.com' };
+    const finance = {
+      SubscriptionType: 'SNS',
+      Address: 'arn:aws:sns:eu-central-1:111122223333:finance',
+    };
+    expect(notifications[0].Subscribers).toHaveLength(2);
+    expect(notifications[0].Subscribers).toContainEqual(lead);
+    expect(notifications[1].Subscribers).toHaveLength(3);
+    expect(notifications[1].Subscribers).toEqual(expect.arrayContaining([lead, finance]));
+  });
+
+  it('passes the recipient resolution chain to the email lookup of each account', () => {
+    const orgOus: OuNode[] = [{ id: 'root', parentId: null }];
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+        recipientSources: ['ACCOUNT_TAG', 'ROOT_EMAIL'],
+        recipientTagKey: 'cost-owner',
+      },
+    };
+
+    const { rootTemplate, outDir, assetFilePath } = synthRootTemplate(orgOus, config);
+
+    const nestedPaths = extractNestedTemplatePaths(rootTemplate, assetFilePath, outDir);
+    const lookup = Object.values(loadNestedTemplate(nestedPaths[0]).Resources ?? {}).find(
+      (resource) => isRecord(resource) && resource.Type === 'AWS::CloudFormation::CustomResource',
+    );
+
+    expect(lookup).toMatchObject({
+      Properties: {
+        RecipientSources: ['ACCOUNT_TAG', 'ROOT_EMAIL'],
+        RecipientTagKey: 'cost-owner',
+      },
+    });
+  });
 });
@@ -0,0 +1,142 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadBudgetConfig } from '../../../lib/org/budget-config-loader';
+import type { OrgStructure } from '../../../lib/org/org-discovery';
+
+describe('loadBudgetConfig with includes', () => {
+  let dir: string;
+
+  const write = (file: string, content: string) => {
+    writeFileSync(join(dir, file), content, 'utf8');
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'budget-config-'));
+    mkdirSync(join(dir, 'teams'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges included files and directories into one config', () => {
+    write(
+      'budget-config.yaml',
+      [
+        'include:',
+        '  - shared.yaml',
+        '  - teams',
+        'default:',
+        '  amount: 100',
+        '  currency: USD',
+        'organizationalUnits:',
+        '  ou-root:',
+        '    amount: 1000',
+      ].join('\n'),
+    );
+    write('shared.yaml', 'accounts:\n  "111122223333":\n    amount: 5\n');
+    write('teams/b-data.yml', 'organizationalUnits:\n  ou-data:\n    amount: 50\n');
+    write(
+      'teams/a-platform.yaml',
+      [
+        'organizationalUnits:',
+        '  ou-platform:',
+        '    amount: 20',
+        'rules:',
+        '  - match:',
+        '      ouName: Sandbox-*',
+        '    budget:',
+        '      amount: 10',
+      ].join('\n'),
+    );
+    write('teams/README.md', 'not a config');
+
+    const config = loadBudgetConfig(join(dir, 'budget-config.yaml'));
+
+    expect(config).not.toHaveProperty('include');
+    expect(config.default).toMatchObject({ amount: 100, currency: 'USD' });
+    expect(Object.keys(config.organizationalUnits ?? {})).toEqual([
+      'ou-root',
+      'ou-platform',
+      'ou-data',
+    ]);
+    expect(config.accounts?.['111122223333']).toMatchObject({ amount: 5 });
+    expect(config.rules).toHaveLength(1);
+  });
+
+  it('names both files and lines when an OU is defined twice', () => {
+    write(
+      'budget-config.yaml',
+      [
+        'include: teams',
+        'default:',
+        '  amount: 100',
+        '  currency: USD',
+        'organizationalUnits:',
+        '  ou-data:',
+        '    amount: 1000',
+      ].join('\n'),
+    );
+    write(
+      'teams/data.yaml',
+      '# owned by the data team\norganizationalUnits:\n  ou-data:\n    amount: 50\n',
+    );
+
+    expect(() => loadBudgetConfig(join(dir, 'budget-config.yaml'))).toThrow(
+      `OU ou-data is defined in both ${join(dir, 'budget-config.yaml')}:6 and ` +
+        `${join(dir, 'teams', 'data.yaml')}:3`,
+    );
+  });
+
+  it('names both files and lines when an OU is configured by ID and by name', () => {
+    const org: OrgStructure = {
+      root: { id: 'r-root', name: 'Root' },
+      ous: [
+        { id: 'r-root', name: 'Root', parentId: null },
+        { id: 'ou-data', name: 'Data', parentId: 'r-root' },
+      ],
+    };
+    write(
+      'budget-config.yaml',
+      [
+        'include: teams',
+        'default:',
+        '  amount: 100',
+        '  currency: USD',
+        'organizationalUnits:',
+        '  ou-data:',
+        '    amount: 1000',
+      ].join('\n'),
+    );
+    write('teams/data.yaml', 'organizationalUnits:\n  "name: Data":\n    amount: 50\n');
+
+    expect(() => loadBudgetConfig(join(dir, 'budget-config.yaml'), org)).toThrow(
+      'OU ou-data is configured twice in budget config: ' +
+        `ou-data (${join(dir, 'budget-config.yaml')}:6) and ` +
+        `name: Data (${join(dir, 'teams', 'data.yaml')}:2)`,
+    );
+  });
+
+  it('rejects a default defined in more than one file', () => {
+    write('budget-config.yaml', 'include: [other.yaml]\ndefault:\n  currency: USD\n');
+    write('other.yaml', 'default:\n  currency: EUR\n');
+
+    expect(() => loadBudgetConfig(join(dir, 'budget-config.yaml'))).toThrow(
+      /"default" is defined in both .*budget-config\.yaml:2 and .*other\.yaml:1/,
+    );
+  });
+
+  it('rejects missing and circular includes', () => {
+    write('budget-config.yaml', 'include: [missing.yaml]\ndefault:\n  currency: USD\n');
+    expect(() => loadBudgetConfig(join(dir, 'budget-config.yaml'))).toThrow(
+      /Budget config file not found at .*missing\.yaml, included from/,
+    );
+
+    write('budget-config.yaml', 'include: [other.yaml]\ndefault:\n  currency: USD\n');
+    write('other.yaml', 'include: budget-config.yaml\n');
+    expect(() => loadBudgetConfig(join(dir, 'budget-config.yaml'))).toThrow(
+      /budget-config\.yaml is included more than once/,
+    );
+  });
+});
@@ -1,4 +1,5 @@
 import type { BudgetConfig } from '../../../lib/org/budget-config';
+import type * as YAML from 'yaml';
 
 // Mock fs and yaml BEFORE importing the loader
 jest.mock('fs', () => ({
@@ -7,12 +8,19 @@ jest.mock('fs', () => ({
 }));
 
 jest.mock('yaml', () => ({
+  ...jest.requireActual<typeof YAML>('yaml'),
   parse: jest.fn(),
 }));
 
 import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
 import { parse as yamlParse } from 'yaml';
-import { loadBudgetConfig, sanitizeBudgetConfig } from '../../../lib/org/budget-config-loader';
+import {
+  loadBudgetConfig,
+  resolveOuReferences,
+  sanitizeBudgetConfig,
+} from '../../../lib/org/budget-config-loader';
+import type { OrgStructure } from '../../../lib/org/org-discovery';
 
 const mockedExistsSync = existsSync as unknown as jest.MockedFunction<typeof existsSync>;
 const mockedReadFileSync = readFileSync as unknown as jest.MockedFunction<typeof readFileSync>;
@@ -122,6 +130,33 @@ describe('loadBudgetConfig', () => {
     expect(mockedYamlParse).toHaveBeenCalledTimes(1);
   });
 
+  it('reports the path, position and expected type of each issue', () => {
+    const { parse } = jest.requireActual<typeof YAML>('yaml');
+    const raw = [
+      'default:',
+      '  amount: 100',
+      '  currency: USD',
+      'organizationalUnits:',
+      '  ou-a:',
+      '    amount: 50',
+      '    tresholds: [50]',
+      '    timeUnit: WEEKLY',
+    ].join('\n');
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(raw);
+    mockedYamlParse.mockImplementation((text: string) => parse(text) as unknown);
+
+    expect(() => loadBudgetConfig('budget-config.yaml')).toThrow(
+      [
+        `Invalid budget config structure in ${resolve('budget-config.yaml')}:`,
+        `  - organizationalUnits.ou-a.tresholds (${resolve('budget-config.yaml')}:7:5): ` +
+          'unknown key, did you mean "thresholds"?',
+        `  - organizationalUnits.ou-a.timeUnit (${resolve('budget-config.yaml')}:8:5): ` +
+          'expected one of DAILY, MONTHLY, QUARTERLY, ANNUALLY',
+      ].join('\n'),
+    );
+  });
+
   it('rejects configs where default.amount is not a number', () => {
     mockedExistsSync.mockReturnValue(true);
     mockedReadFileSync.mockReturnValue('irrelevant');
@@ -172,6 +207,313 @@ describe('loadBudgetConfig', () => {
     }).toThrow(/Invalid budget config structure/);
   });
 
+  it('rejects thresholds with an unknown notification type', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    const badConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+      },
+      organizationalUnits: {
+        'ou-a': { amount: 50, thresholds: [{ value: 100, notificationType: 'SOMETIMES' }] },
+      },
+    };
+
+    mockedYamlParse.mockReturnValue(badConfig);
+
+    expect(() => loadBudgetConfig('bad-thresholds.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects thresholds with an unknown threshold type', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: {
+        amount: 100,
+        currency: 'USD',
+        thresholds: [{ value: 500, thresholdType: 'EUR' }],
+      },
+    });
+
+    expect(() => loadBudgetConfig('bad-thresholds.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects unknown time units', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: {
+        amount: 100,
+        currency: 'USD',
+      },
+      organizationalUnits: {
+        'ou-a': { amount: 50, timeUnit: 'WEEKLY' },
+      },
+    });
+
+    expect(() => loadBudgetConfig('bad-time-unit.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects named budgets without an amount', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: {
+        amount: 100,
+        currency: 'USD',
+        budgets: { ec2: { currency: 'USD' } },
+      },
+    });
+
+    expect(() => loadBudgetConfig('bad-budgets.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects filters with unknown dimensions or empty value lists', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD', filter: { accounts: ['123456789012'] } },
+    });
+    expect(() => loadBudgetConfig('bad-filter.yml')).toThrow(/Invalid budget config structure/);
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: { 'ou-a': { amount: 50, filter: { tags: { team: [] } } } },
+    });
+    expect(() => loadBudgetConfig('bad-filter.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects unknown cost types and metrics', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD', costTypes: { includeDiscount: true } },
+    });
+    expect(() => loadBudgetConfig('bad-cost-types.yml')).toThrow(/Invalid budget config structure/);
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: { 'ou-a': { amount: 50, costTypes: { metric: 'NetCost' } } },
+    });
+    expect(() => loadBudgetConfig('bad-cost-types.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects named budgets with an unknown budget type', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: {
+        amount: 100,
+        currency: 'USD',
+        budgets: { sp: { amount: 80, budgetType: 'SAVINGS_PLANS' } },
+      },
+    });
+
+    expect(() => loadBudgetConfig('bad-budget-type.yml')).toThrow(
+      /Invalid budget config structure/,
+    );
+  });
+
+  it('rejects string amounts other than auto', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: { 'ou-a': { amount: 'historical', lookbackPeriods: 6 } },
+    });
+
+    expect(() => loadBudgetConfig('bad-amount.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects planned budget limits with invalid months', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: { 'ou-a': { amount: 50, plannedBudgetLimits: { '2025-13': 150 } } },
+    });
+
+    expect(() => loadBudgetConfig('bad-planned.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects unsupported budget actions', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: {
+        'ou-a': {
+          amount: 50,
+          actions: [{ threshold: 100, applyScp: { policyId: 'p-deny', targetIds: ['ou-a'] } }],
+        },
+      },
+    });
+
+    expect(() => loadBudgetConfig('bad-actions.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects subscribers with both an email and a topic', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits: {
+        'ou-a': {
+          amount: 50,
+          thresholds: [
+            {
+              value: 100,
+              subscribers: [{ email: 'finance@example.com', snsTopicArn: 'arn:topic' }],
+            },
+          ],
+        },
+      },
+    });
+
+    expect(() => loadBudgetConfig('bad-subscribers.yml')).toThrow(
+      /Invalid budget config structure/,
+    );
+  });
+
+  it('rejects unknown recipient sources', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD', recipientSources: ['SECURITY_CONTACT'] },
+    });
+
+    expect(() => loadBudgetConfig('bad-recipients.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('rejects rules without conditions or with an invalid regex', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      rules: [{ match: {}, budget: { amount: 10 } }],
+    });
+    expect(() => loadBudgetConfig('empty-rule.yml')).toThrow(/Invalid budget config structure/);
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      rules: [{ match: { ouNameRegex: '(' }, budget: { amount: 10 } }],
+    });
+    expect(() => loadBudgetConfig('bad-regex.yml')).toThrow(/Invalid budget config structure/);
+  });
+
+  it('keeps the budgets of rules as configured', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    mockedYamlParse.mockReturnValue({
+      default: { amount: 100, currency: 'USD' },
+      rules: [{ name: 'sandboxes', match: { ouName: 'Sandbox-*' }, budget: { amount: 10 } }],
+    });
+
+    expect(loadBudgetConfig('rules.yml').rules).toEqual([
+      {
+        name: 'sandboxes',
+        match: { ouName: 'Sandbox-*' },
+        budget: { amount: 10 },
+      },
+    ]);
+  });
+
+  it('accepts actual and forecasted thresholds', () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue('irrelevant');
+
+    const config: BudgetConfig = {
+      default: {
+        amount: 100,
+        currency: 'USD',
+        thresholds: [75, { value: 100, notificationType: 'FORECASTED' }],
+      },
+    };
+
+    mockedYamlParse.mockReturnValue(config);
+
+    expect(loadBudgetConfig('forecasted.yml').default.thresholds).toEqual([
+      75,
+      { value: 100, notificationType: 'FORECASTED' },
+    ]);
+  });
+
+  describe('profiles', () => {
+    const profiles = {
+      sandbox: { amount: 10, currency: 'USD', thresholds: [100] },
+      prod: { amount: 1000, currency: 'USD', thresholds: [50, 80, 100] },
+      'critical-prod': { profile: 'prod', thresholds: [25, 50, 75, 100] },
+    };
+
+    beforeEach(() => {
+      mockedExistsSync.mockReturnValue(true);
+      mockedReadFileSync.mockReturnValue('irrelevant');
+    });
+
+    it('expands profiles referenced by entries, with overrides from the entry', () => {
+      mockedYamlParse.mockReturnValue({
+        default: { amount: 100, currency: 'USD' },
+        profiles,
+        organizationalUnits: {
+          'ou-sandbox': { profile: 'sandbox', amount: null },
+          'ou-prod': { profile: 'prod', amount: 2000 },
+          'ou-payments': { profile: 'critical-prod' },
+        },
+        accounts: { '111122223333': { profile: 'sandbox', amount: 5 } },
+      });
+
+      const config = loadBudgetConfig('profiles.yml');
+
+      expect(config.organizationalUnits).toEqual({
+        'ou-sandbox': { amount: 10, currency: 'USD', thresholds: [100] },
+        'ou-prod': { amount: 2000, currency: 'USD', thresholds: [50, 80, 100] },
+        'ou-payments': { amount: 1000, currency: 'USD', thresholds: [25, 50, 75, 100] },
+      });
+      expect(config.accounts).toEqual({
+        '111122223333': { amount: 5, currency: 'USD', thresholds: [100] },
+      });
+    });
+
+    it('reports unknown profiles', () => {
+      mockedYamlParse.mockReturnValue({
+        default: { amount: 100, currency: 'USD' },
+        profiles,
+        organizationalUnits: { 'ou-a': { profile: 'staging', amount: null } },
+      });
+
+      expect(() => loadBudgetConfig('unknown-profile.yml')).toThrow(
+        'Unknown profile "staging" referenced by OU ou-a',
+      );
+    });
+
+    it('reports circular profiles', () => {
+      mockedYamlParse.mockReturnValue({
+        default: { amount: 100, currency: 'USD' },
+        profiles: { a: { profile: 'b' }, b: { profile: 'a' } },
+        organizationalUnits: { 'ou-a': { profile: 'a', amount: null } },
+      });
+
+      expect(() => loadBudgetConfig('circular-profile.yml')).toThrow(
+        'Circular profile reference: a -> b -> a',
+      );
+    });
+  });
+
   describe('sanitizeBudgetConfig', () => {
     it('accepts a minimal valid config', () => {
       const minimalConfig: BudgetConfig = {
@@ -190,4 +532,66 @@ describe('loadBudgetConfig', () => {
       expect(result.default.currency).toBe('USD');
     });
   });
+
+  describe('resolveOuReferences', () => {
+    const org: OrgStructure = {
+      root: { id: 'r-root', name: 'Root' },
+      ous: [
+        { id: 'r-root', name: 'Root', parentId: null },
+        { id: 'ou-workloads', name: 'Workloads', parentId: 'r-root' },
+        { id: 'ou-prod', name: 'Prod', parentId: 'ou-workloads' },
+        { id: 'ou-sandbox', name: 'Sandbox', parentId: 'r-root' },
+        { id: 'ou-infra', name: 'Infrastructure', parentId: 'r-root' },
+        { id: 'ou-infra-prod', name: 'Prod', parentId: 'ou-infra' },
+      ],
+    };
+
+    const withOus = (organizationalUnits: BudgetConfig['organizationalUnits']): BudgetConfig => ({
+      default: { amount: 100, currency: 'USD' },
+      organizationalUnits,
+    });
+
+    it('resolves paths and names to OU IDs and keeps IDs', () => {
+      const result = resolveOuReferences(
+        withOus({
+          '/Workloads/Prod': { amount: 500 },
+          'name: Sandbox': { amount: 10 },
+          'ou-infra': { amount: 50 },
+          '/': { amount: 1000 },
+        }),
+        org,
+      );
+
+      expect(result.organizationalUnits).toEqual({
+        'ou-prod': { amount: 500 },
+        'ou-sandbox': { amount: 10 },
+        'ou-infra': { amount: 50 },
+        'r-root': { amount: 1000 },
+      });
+    });
+
+    it('rejects unknown paths and names', () => {
+      expect(() => resolveOuReferences(withOus({ '/Workloads/Dev': { amount: 5 } }), org)).toThrow(
+        'Unknown OU path in budget config: /Workloads/Dev',
+      );
+      expect(() => resolveOuReferences(withOus({ 'name: Dev': { amount: 5 } }), org)).toThrow(
+        'Unknown OU name in budget config: Dev',
+      );
+    });
+
+    it('rejects ambiguous names', () => {
+      expect(() => resolveOuReferences(withOus({ 'name: Prod': { amount: 5 } }), org)).toThrow(
+        /Ambiguous OU name in budget config: Prod \(ou-prod, ou-infra-prod\)/,
+      );
+    });
+
+    it('rejects an OU that is configured under two keys', () => {
+      expect(() =>
+        resolveOuReferences(
+          withOus({ 'ou-sandbox': { amount: 5 }, 'name: Sandbox': { amount: 10 } }),
+          org,
+        ),
+      ).toThrow('OU ou-sandbox is configured twice in budget config: ou-sandbox and name: Sandbox');
+    });
+  });
 });
@@ -0,0 +1,53 @@
+import * as YAML from 'yaml';
+import { CURRENT_CONFIG_VERSION } from '../../../lib/org/budget-config';
+import { migrateBudgetConfig, plainConfig } from '../../../lib/org/budget-config-migrations';
+
+describe('migrateBudgetConfig', () => {
+  it('upgrades a config without a version and keeps its behavior', () => {
+    const config: Record<string, unknown> = { default: { amount: 100, currency: 'USD' } };
+
+    const applied = migrateBudgetConfig(plainConfig(config));
+
+    expect(applied).toEqual([expect.stringMatching(/^version 1 -> 2: /)]);
+    expect(config).toEqual({
+      default: { amount: 100, currency: 'USD' },
+      inheritFields: false,
+      version: CURRENT_CONFIG_VERSION,
+    });
+  });
+
+  it('keeps an inheritFields set in a version 1 config', () => {
+    const config: Record<string, unknown> = { version: 1, inheritFields: true };
+
+    migrateBudgetConfig(plainConfig(config));
+
+    expect(config).toEqual({ version: CURRENT_CONFIG_VERSION, inheritFields: true });
+  });
+
+  it('leaves current and invalid versions alone', () => {
+    const current: Record<string, unknown> = { version: CURRENT_CONFIG_VERSION };
+    const invalid: Record<string, unknown> = { version: 'two' };
+
+    expect(migrateBudgetConfig(plainConfig(current))).toEqual([]);
+    expect(migrateBudgetConfig(plainConfig(invalid))).toEqual([]);
+    expect(current).toEqual({ version: CURRENT_CONFIG_VERSION });
+    expect(invalid).toEqual({ version: 'two' });
+  });
+
+  it('rejects configs of a newer version', () => {
+    expect(() => migrateBudgetConfig(plainConfig({ version: CURRENT_CONFIG_VERSION + 1 }))).toThrow(
+      /is newer than the latest version/,
+    );
+  });
+
+  it('migrates YAML documents and keeps their comments', () => {
+    const doc = YAML.parseDocument('# team budgets\ndefault:\n  amount: 100 # monthly\n');
+
+    migrateBudgetConfig(doc);
+
+    expect(String(doc)).toBe(
+      '# team budgets\ndefault:\n  amount: 100 # monthly\n' +
+        `inheritFields: false\nversion: ${CURRENT_CONFIG_VERSION}\n`,
+    );
+  });
+});
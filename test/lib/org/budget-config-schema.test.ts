@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  BUDGET_CONFIG_SCHEMA,
+  formatConfigPath,
+  suggestKey,
+  validateConfigSchema,
+} from '../../../lib/org/budget-config-schema';
+
+describe('BUDGET_CONFIG_SCHEMA', () => {
+  it('matches the published budget-config.schema.json (run "npm run schema" to update)', () => {
+    const published: unknown = JSON.parse(
+      readFileSync(join(__dirname, '../../../budget-config.schema.json'), 'utf8'),
+    );
+
+    expect(published).toEqual(JSON.parse(JSON.stringify(BUDGET_CONFIG_SCHEMA)));
+  });
+});
+
+describe('validateConfigSchema', () => {
+  it('accepts a valid config', () => {
+    expect(
+      validateConfigSchema({
+        default: { amount: 100, currency: 'USD', thresholds: [75, { value: 100 }] },
+        organizationalUnits: {
+          'ou-a': { amount: '50%' },
+          'ou-b': null,
+          'ou-c': { amount: 'auto', lookbackPeriods: 6 },
+        },
+        rules: [{ match: { ouName: 'Sandbox-*' }, budget: { amount: 10 } }],
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports every issue with its path and the expected type', () => {
+    const issues = validateConfigSchema({
+      default: { amount: 100, currency: 'USD', tresholds: [75] },
+      organizationalUnits: {
+        'ou-a': {
+          amount: 'historical',
+          thresholds: [{ value: 100, notificationType: 'PREDICTED' }],
+          plannedBudgetLimits: { '2025-13': 150 },
+        },
+      },
+      accounts: { '111122223333': { amount: 5, subscribers: [{}] } },
+    });
+
+    expect(issues).toEqual([
+      { path: ['default', 'tresholds'], message: 'unknown key, did you mean "thresholds"?' },
+      {
+        path: ['organizationalUnits', 'ou-a', 'amount'],
+        message: 'expected a number, "auto" or a percentage like "50%"',
+      },
+      {
+        path: ['organizationalUnits', 'ou-a', 'thresholds', 0, 'notificationType'],
+        message: 'expected one of ACTUAL, FORECASTED',
+      },
+      {
+        path: ['organizationalUnits', 'ou-a', 'plannedBudgetLimits', '2025-13'],
+        message: 'expected a month like "2025-01"',
+      },
+      {
+        path: ['accounts', '111122223333', 'subscribers', 0],
+        message: 'expected an object with either "email" or "snsTopicArn"',
+      },
+    ]);
+  });
+
+  it('requires default or organizationalUnits', () => {
+    expect(validateConfigSchema({ default: null })).toEqual([
+      { path: [], message: 'expected "default" or "organizationalUnits"' },
+    ]);
+  });
+
+  it('rejects rules without conditions and invalid regular expressions', () => {
+    expect(
+      validateConfigSchema({
+        default: { currency: 'USD' },
+        rules: [
+          { match: {}, budget: { amount: 10 } },
+          { match: { ouNameRegex: '(' }, budget: { amount: 10 } },
+        ],
+      }),
+    ).toEqual([
+      {
+        path: ['rules', 0, 'match'],
+        message: 'expected at least one of ouName, ouNameRegex, tags',
+      },
+      {
+        path: ['rules', 1, 'match', 'ouNameRegex'],
+        message: 'expected a valid regular expression',
+      },
+    ]);
+  });
+});
+
+describe('suggestKey', () => {
+  it('suggests close keys only', () => {
+    expect(suggestKey('organisationalUnits', ['organizationalUnits', 'accounts'])).toBe(
+      'organizationalUnits',
+    );
+    expect(suggestKey('Currency', ['currency', 'amount'])).toBe('currency');
+    expect(suggestKey('budget', ['currency', 'amount'])).toBeUndefined();
+  });
+});
+
+describe('formatConfigPath', () => {
+  it('renders keys, list indexes and quoted keys', () => {
+    expect(formatConfigPath(['organizationalUnits', 'ou-a', 'thresholds', 1])).toBe(
+      'organizationalUnits.ou-a.thresholds[1]',
+    );
+    expect(formatConfigPath(['organizationalUnits', '/Workloads/Prod'])).toBe(
+      'organizationalUnits["/Workloads/Prod"]',
+    );
+    expect(formatConfigPath([])).toBe('(root)');
+  });
+});
@@ -1,4 +1,4 @@
-import { type BudgetConfig } from '../../../lib/org/budget-config';
+import { type BudgetConfig, type OuBudgetConfigEntry } from '../../../lib/org/budget-config';
 import {
   buildOuTree,
   computeEffectiveBudgets,
@@ -8,7 +8,9 @@ import {
   selectOuBudgetAttachments,
   validateBudgetConfig,
   type OuNode,
+  computeAccountBudgets,
 } from '../../../lib/org/budget-planner';
+import { type AccountNode } from '../../../lib/org/org-discovery';
 
 const simpleValidOus: OuNode[] = [
   { id: 'A', parentId: null },
@@ -134,6 +136,953 @@ describe('computeEffectiveBudgets', () => {
   });
 });
 
+describe('computeEffectiveBudgets - time units', () => {
+  it('should inherit the time unit like the amount', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD', timeUnit: 'QUARTERLY' },
+      organizationalUnits: {
+        B: { amount: null, timeUnit: 'DAILY' }, // keeps the amount of A
+        D: { amount: 50 }, // keeps the time unit of B
+      },
+    };
+
+    const budgets = computeEffectiveBudgets(tree, budgetConfig);
+
+    expect(budgets.get('A')).toMatchObject({ amount: 1000, timeUnit: 'QUARTERLY' });
+    expect(budgets.get('B')).toMatchObject({ amount: 1000, timeUnit: 'DAILY' });
+    expect(budgets.get('C')).toMatchObject({ amount: 1000, timeUnit: 'QUARTERLY' });
+    expect(budgets.get('D')).toMatchObject({ amount: 50, timeUnit: 'DAILY' });
+    expect(budgets.get('E')).toMatchObject({ amount: 1000, timeUnit: 'DAILY' });
+  });
+
+  it('should split subtrees with different time units', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: null, timeUnit: 'ANNUALLY' },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD' },
+      { ouId: 'C', amount: 1000, currency: 'USD', timeUnit: 'ANNUALLY' },
+    ]);
+  });
+
+  it('should treat a missing time unit as MONTHLY', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: null, timeUnit: 'MONTHLY' },
+      },
+    });
+
+    expect(attachments).toEqual([{ ouId: 'A', amount: 1000, currency: 'USD' }]);
+  });
+});
+
+describe('computeEffectiveBudgets - named budgets', () => {
+  it('should resolve each named budget independently', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: {
+        amount: 1000,
+        currency: 'USD',
+        budgets: {
+          ec2: { amount: 300 },
+          'data-transfer': { amount: 50, currency: 'EUR' },
+        },
+      },
+      organizationalUnits: {
+        B: { amount: 100, budgets: { ec2: { amount: 30, thresholds: [90] } } },
+        D: { amount: null, budgets: { 'data-transfer': null } },
+      },
+    };
+
+    const budgets = computeEffectiveBudgets(tree, budgetConfig);
+
+    expect(budgets.get('C')).toMatchObject({
+      amount: 1000,
+      budgets: {
+        ec2: { amount: 300, currency: 'USD' },
+        'data-transfer': { amount: 50, currency: 'EUR' },
+      },
+    });
+    expect(budgets.get('E')).toMatchObject({
+      amount: 100,
+      budgets: {
+        ec2: { amount: 30, currency: 'USD', thresholds: [90] },
+        'data-transfer': { amount: 50, currency: 'EUR' },
+      },
+    });
+    expect(budgets.get('D')).toMatchObject({
+      amount: 100,
+      budgets: { ec2: { amount: 30, currency: 'USD', thresholds: [90] } },
+    });
+    expect(budgets.get('D')).not.toHaveProperty(['budgets', 'data-transfer']);
+  });
+
+  it('should split subtrees with different named budgets', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: null, budgets: { ec2: { amount: 200 } } },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD' },
+      {
+        ouId: 'C',
+        amount: 1000,
+        currency: 'USD',
+        budgets: { ec2: { amount: 200, currency: 'USD' } },
+      },
+    ]);
+  });
+
+  it('should reject invalid budget names', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: { A: { amount: null, budgets: { 'ec2 only': { amount: 5 } } } },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A has invalid budget name: ec2 only/);
+  });
+});
+
+describe('computeEffectiveBudgets - cost filters', () => {
+  it('should take the filter from the entry or the default, but not for named budgets', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: {
+        amount: 1000,
+        currency: 'USD',
+        filter: { regions: ['eu-central-1'] },
+        budgets: {
+          ec2: { amount: 300, filter: { services: ['Amazon Elastic Compute Cloud - Compute'] } },
+        },
+      },
+      organizationalUnits: {
+        B: { amount: 100, filter: { tags: { team: ['data'] } } },
+      },
+    };
+
+    const budgets = computeEffectiveBudgets(tree, budgetConfig);
+
+    expect(budgets.get('C')).toMatchObject({ filter: { regions: ['eu-central-1'] } });
+    expect(budgets.get('D')).toMatchObject({ filter: { tags: { team: ['data'] } } });
+    expect(budgets.get('D')).toMatchObject({
+      budgets: { ec2: { filter: { services: ['Amazon Elastic Compute Cloud - Compute'] } } },
+    });
+  });
+
+  it('should split subtrees with different filters, ignoring value order', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD', filter: { regions: ['us-east-1', 'eu-west-1'] } },
+      organizationalUnits: {
+        B: { amount: 1000, filter: { regions: ['eu-west-1', 'us-east-1'] } },
+        C: { amount: 1000, filter: { regions: ['us-east-1'] } },
+      },
+    });
+
+    expect(attachments).toEqual([
+      {
+        ouId: 'B',
+        amount: 1000,
+        currency: 'USD',
+        filter: { regions: ['eu-west-1', 'us-east-1'] },
+      },
+      { ouId: 'C', amount: 1000, currency: 'USD', filter: { regions: ['us-east-1'] } },
+    ]);
+  });
+});
+
+describe('computeEffectiveBudgets - cost types', () => {
+  it('should split subtrees with different cost types', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: 1000, costTypes: { includeTax: false, metric: 'AmortizedCost' } },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD' },
+      {
+        ouId: 'C',
+        amount: 1000,
+        currency: 'USD',
+        costTypes: { includeTax: false, metric: 'AmortizedCost' },
+      },
+    ]);
+  });
+
+  it('should treat explicit default cost types like omitted ones', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: 1000, costTypes: { includeCredit: false, metric: 'UnblendedCost' } },
+      },
+    });
+
+    expect(attachments).toEqual([{ ouId: 'A', amount: 1000, currency: 'USD' }]);
+  });
+
+  it('should reject cost types on disabled OUs', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: { A: { amount: null, off: true, costTypes: { includeTax: false } } },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A: off=true cannot be combined with costTypes/);
+  });
+});
+
+describe('computeEffectiveBudgets - budget types', () => {
+  it('should split subtrees with different budget types', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD', budgets: { sp: { amount: 80 } } },
+      organizationalUnits: {
+        C: { amount: null, budgets: { sp: { amount: 80, budgetType: 'SAVINGS_PLANS_COVERAGE' } } },
+      },
+    });
+
+    expect(attachments).toEqual([
+      {
+        ouId: 'B',
+        amount: 1000,
+        currency: 'USD',
+        budgets: { sp: { amount: 80, currency: 'USD' } },
+      },
+      {
+        ouId: 'C',
+        amount: 1000,
+        currency: 'USD',
+        budgets: { sp: { amount: 80, currency: 'USD', budgetType: 'SAVINGS_PLANS_COVERAGE' } },
+      },
+    ]);
+  });
+
+  it('should reject USAGE budgets without a usage unit', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: {
+            amount: 1000,
+            currency: 'USD',
+            budgets: { ec2: { amount: 500, budgetType: 'USAGE' } },
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/Default budget ec2: USAGE budgets need a usageUnit/);
+  });
+
+  it('should reject USAGE budgets without a usageTypes filter', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: {
+            amount: 1000,
+            currency: 'USD',
+            budgets: { ec2: { amount: 500, budgetType: 'USAGE', usageUnit: 'Hrs' } },
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/Default budget ec2: USAGE budgets need a filter on usageTypes/);
+  });
+
+  it('should reject target percentages above 100', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: {
+            A: {
+              amount: null,
+              budgets: { sp: { amount: 120, budgetType: 'SAVINGS_PLANS_UTILIZATION' } },
+            },
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A budget sp has invalid target percentage: 120/);
+  });
+
+  it('should reject thresholds on target percentage budgets', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: {
+            amount: 1000,
+            currency: 'USD',
+            thresholds: [80, 100],
+            budgets: {
+              sp: { amount: 80, budgetType: 'SAVINGS_PLANS_COVERAGE', thresholds: [50, 80] },
+            },
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/Default budget sp: thresholds are not valid for SAVINGS_PLANS_COVERAGE budgets/);
+  });
+
+  it('should require a single service filter for RI budgets', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: {
+            amount: 1000,
+            currency: 'USD',
+            budgets: { ri: { amount: 90, budgetType: 'RI_UTILIZATION' } },
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/RI_UTILIZATION budgets need a filter on exactly one service/);
+  });
+});
+
+describe('computeEffectiveBudgets - auto amounts', () => {
+  it('should treat auto budgets with the same lookback as compatible', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        A: { amount: 'auto', lookbackPeriods: 6 },
+        C: { amount: 'auto', lookbackPeriods: 6 },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'A', amount: 'auto', lookbackPeriods: 6, currency: 'USD' },
+    ]);
+  });
+
+  it('should split auto budgets with different lookbacks', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        A: { amount: 'auto', lookbackPeriods: 6 },
+        C: { amount: 'auto', lookbackPeriods: 3 },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 'auto', lookbackPeriods: 6, currency: 'USD' },
+      { ouId: 'C', amount: 'auto', lookbackPeriods: 3, currency: 'USD' },
+    ]);
+  });
+
+  it('should require a lookback for auto amounts', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: { A: { amount: 'auto' } },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A: amount auto needs a positive integer lookbackPeriods/);
+  });
+
+  it('should reject a lookback for fixed amounts', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: { A: { amount: 100, lookbackPeriods: 6 } },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A: lookbackPeriods is only valid with amount auto/);
+  });
+
+  it('should reject lookbacks above the maximum of the time unit', () => {
+    expect(() =>
+      computeEffectiveBudgets(buildOuTree(simpleValidOus), {
+        default: { amount: 1000, currency: 'USD' },
+        organizationalUnits: {
+          A: { amount: 'auto', lookbackPeriods: 13 },
+          B: { amount: 'auto', lookbackPeriods: 12 },
+          C: { amount: null, timeUnit: 'QUARTERLY' }, // inherits 13 periods from A
+          D: { amount: 'auto', lookbackPeriods: 60, timeUnit: 'DAILY' },
+        },
+      }),
+    ).toThrow(
+      'Invalid budget config (2 problems):\n' +
+        '  - OU A: lookbackPeriods 13 is above the maximum of 12 for MONTHLY budgets\n' +
+        '  - OU C: lookbackPeriods 13 is above the maximum of 4 for QUARTERLY budgets',
+    );
+  });
+
+  it('should reject lookbacks above the maximum for accounts', () => {
+    expect(() =>
+      computeAccountBudgets({
+        default: { amount: 1000, currency: 'USD', timeUnit: 'ANNUALLY' },
+        accounts: { '111111111111': { amount: 'auto', lookbackPeriods: 2 } },
+      }),
+    ).toThrow(/Account 111111111111: lookbackPeriods 2 is above the maximum of 1 for ANNUALLY/);
+  });
+});
+
+describe('computeEffectiveBudgets - planned budget limits', () => {
+  it('should split subtrees with different planned limits', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        A: { amount: 1000, plannedBudgetLimits: { '2025-11': 2000, '2025-12': 3000 } },
+        C: { amount: 1000, plannedBudgetLimits: { '2025-12': 3000, '2025-11': 2000 } },
+        D: { amount: 1000, plannedBudgetLimits: { '2025-12': 2500 } },
+      },
+    });
+
+    expect(attachments).toEqual([
+      {
+        ouId: 'D',
+        amount: 1000,
+        currency: 'USD',
+        plannedBudgetLimits: { '2025-12': 2500 },
+      },
+      {
+        ouId: 'E',
+        amount: 1000,
+        currency: 'USD',
+        plannedBudgetLimits: { '2025-11': 2000, '2025-12': 3000 },
+      },
+      {
+        ouId: 'C',
+        amount: 1000,
+        currency: 'USD',
+        plannedBudgetLimits: { '2025-12': 3000, '2025-11': 2000 },
+      },
+    ]);
+  });
+
+  it('should reject planned limits without a fixed amount', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: { A: { amount: null, plannedBudgetLimits: { '2025-12': 3000 } } },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A: plannedBudgetLimits need a fixed amount/);
+  });
+
+  it('should reject planned limits for non-monthly budgets', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: {
+            A: { amount: 100, timeUnit: 'QUARTERLY', plannedBudgetLimits: { '2025-12': 300 } },
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A: plannedBudgetLimits are only valid for MONTHLY budgets/);
+  });
+
+  it('should reject planned limits with an inherited non-monthly time unit', () => {
+    expect(() =>
+      computeEffectiveBudgets(buildOuTree(simpleValidOus), {
+        default: { amount: 1000, currency: 'USD' },
+        organizationalUnits: {
+          A: { amount: 100, plannedBudgetLimits: { '2025-12': 300 } },
+          B: { amount: null, timeUnit: 'QUARTERLY' },
+        },
+      }),
+    ).toThrow(
+      'Invalid budget config (1 problem):\n' +
+        '  - OU B: plannedBudgetLimits are only valid for MONTHLY budgets, not QUARTERLY',
+    );
+  });
+
+  it('should reject planned limits with the time unit of the default', () => {
+    const config: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD', timeUnit: 'ANNUALLY' },
+      organizationalUnits: { A: { amount: 100, plannedBudgetLimits: { '2025-12': 300 } } },
+      accounts: { '111111111111': { amount: 10, plannedBudgetLimits: { '2025-12': 30 } } },
+    };
+
+    expect(() => computeEffectiveBudgets(buildOuTree(simpleValidOus), config)).toThrow(
+      /OU A: plannedBudgetLimits are only valid for MONTHLY budgets, not ANNUALLY/,
+    );
+    expect(() => computeAccountBudgets(config)).toThrow(
+      /Account 111111111111: plannedBudgetLimits are only valid for MONTHLY budgets, not ANNUALLY/,
+    );
+  });
+});
+
+describe('computeEffectiveBudgets - budget actions', () => {
+  const denyAll = {
+    threshold: 100,
+    applyIamPolicy: {
+      policyArn: 'arn:aws:iam::aws:policy/AWSDenyAll',
+      roles: ['developer'],
+    },
+  };
+
+  it('should split subtrees with different actions', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: 1000, actions: [denyAll] },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD' },
+      { ouId: 'C', amount: 1000, currency: 'USD', actions: [denyAll] },
+    ]);
+  });
+
+  it('should take the actions from the default', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD', actions: [denyAll] },
+      organizationalUnits: {
+        C: { amount: 1000, actions: [{ ...denyAll, threshold: { value: 100 } }] },
+      },
+    });
+
+    expect(attachments).toEqual([{ ouId: 'A', amount: 1000, currency: 'USD', actions: [denyAll] }]);
+  });
+
+  it('should require exactly one kind of action', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: { amount: 1000, currency: 'USD' },
+          organizationalUnits: {
+            A: {
+              amount: 100,
+              actions: [
+                {
+                  ...denyAll,
+                  stopInstances: { service: 'EC2', region: 'eu-west-1', instanceIds: ['i-1'] },
+                },
+              ],
+            },
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/OU A action 0 needs exactly one of applyIamPolicy or stopInstances/);
+  });
+
+  it('should require targets for IAM policy actions', () => {
+    expect(() => {
+      validateBudgetConfig(
+        {
+          default: {
+            amount: 1000,
+            currency: 'USD',
+            actions: [
+              { threshold: 100, applyIamPolicy: { policyArn: denyAll.applyIamPolicy.policyArn } },
+            ],
+          },
+        },
+        ['A'],
+      );
+    }).toThrow(/Default action 0 needs roles, groups or users for the policy/);
+  });
+});
+
+describe('computeEffectiveBudgets - notification subscribers', () => {
+  const tree = buildOuTree(simpleValidOus);
+  const financeAt100 = {
+    value: 100,
+    subscribers: [{ email: 'finance@example.com' }],
+  };
+
+  it('should split subtrees with different subscribers', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: 1000, subscribers: [{ email: 'lead@example.com' }] },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD' },
+      {
+        ouId: 'C',
+        amount: 1000,
+        currency: 'USD',
+        subscribers: [{ email: 'lead@example.com' }],
+      },
+    ]);
+  });
+
+  it('should treat thresholds with different subscribers as different', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD', thresholds: [75, 100] },
+      organizationalUnits: {
+        C: { amount: 1000, thresholds: [75, financeAt100] },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD', thresholds: [75, 100] },
+      { ouId: 'C', amount: 1000, currency: 'USD', thresholds: [75, financeAt100] },
+    ]);
+  });
+
+  it('should reject more than ten email subscribers per notification', () => {
+    const subscribers = Array.from({ length: 8 }, (_, i) => ({ email: `user${i}@example.com` }));
+
+    expect(() =>
+      computeEffectiveBudgets(tree, {
+        default: { amount: 1000, currency: 'USD', thresholds: [75, financeAt100] },
+        organizationalUnits: {
+          A: { amount: 100, subscribers: [...subscribers, { email: 'extra@example.com' }] },
+        },
+      }),
+    ).toThrow(
+      'OU A threshold 100 has 11 email subscribers including the account email, ' +
+        'AWS Budgets allows at most 10',
+    );
+  });
+
+  it('should reject a second SNS subscriber next to the aggregation topic', () => {
+    expect(() =>
+      computeEffectiveBudgets(tree, {
+        default: { amount: 1000, currency: 'USD', aggregationSnsTopicArn: 'arn:topic' },
+        organizationalUnits: {
+          A: {
+            amount: 100,
+            thresholds: [75, { value: 100, subscribers: [{ snsTopicArn: 'arn:finance' }] }],
+          },
+        },
+      }),
+    ).toThrow(
+      'Invalid budget config (1 problem):\n' +
+        '  - OU A threshold 100 has 2 SNS subscribers including the aggregation topic, ' +
+        'AWS Budgets allows at most 1',
+    );
+  });
+
+  it('should count subscribers inherited from parent OUs', () => {
+    const subscribers = Array.from({ length: 9 }, (_, i) => ({ email: `user${i}@example.com` }));
+
+    expect(() =>
+      computeEffectiveBudgets(tree, {
+        default: { amount: 1000, currency: 'USD', thresholds: [100] },
+        organizationalUnits: {
+          A: { amount: 100, subscribers },
+          B: { amount: 50, thresholds: [financeAt100] },
+        },
+      }),
+    ).toThrow(/OU B threshold 100 has 11 email subscribers/);
+  });
+
+  it('should count the default subscribers of named budgets', () => {
+    const subscribers = Array.from({ length: 9 }, (_, i) => ({ email: `user${i}@example.com` }));
+
+    expect(() =>
+      computeAccountBudgets({
+        default: {
+          amount: 1000,
+          currency: 'USD',
+          subscribers,
+          budgets: { ec2: { amount: 100, thresholds: [financeAt100] } },
+        },
+        accounts: { '111111111111': { amount: 10 } },
+      }),
+    ).toThrow(/Account 111111111111 budget ec2 threshold 100 has 11 email subscribers/);
+  });
+});
+
+describe('computeEffectiveBudgets - aggregation topics', () => {
+  const retailTopic = 'arn:aws:sns:eu-central-1:111122223333:retail';
+  const defaultTopic = 'arn:aws:sns:eu-central-1:111122223333:all';
+
+  it('should inherit the topic of the parent OU', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD', aggregationSnsTopicArn: defaultTopic },
+      organizationalUnits: {
+        B: { amount: null, aggregationSnsTopicArn: retailTopic },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD', aggregationSnsTopicArn: retailTopic },
+      { ouId: 'C', amount: 1000, currency: 'USD', aggregationSnsTopicArn: defaultTopic },
+    ]);
+  });
+
+  it('should turn aggregation off with null', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'USD', aggregationSnsTopicArn: defaultTopic },
+      organizationalUnits: {
+        C: { amount: 1000, aggregationSnsTopicArn: null },
+      },
+      accounts: {
+        '111122223333': { amount: 50, aggregationSnsTopicArn: retailTopic },
+      },
+    });
+
+    expect(attachments).toEqual([
+      {
+        ouId: 'B',
+        amount: 1000,
+        currency: 'USD',
+        aggregationSnsTopicArn: defaultTopic,
+        excludedAccountIds: ['111122223333'],
+      },
+      { ouId: 'C', amount: 1000, currency: 'USD', excludedAccountIds: ['111122223333'] },
+      {
+        ouId: 'A',
+        accountId: '111122223333',
+        amount: 50,
+        currency: 'USD',
+        aggregationSnsTopicArn: retailTopic,
+      },
+    ]);
+  });
+});
+
+describe('computeEffectiveBudgets - field inheritance', () => {
+  const config: BudgetConfig = {
+    default: { amount: 100, currency: 'USD', thresholds: [100] },
+    organizationalUnits: {
+      A: { amount: 1000, currency: 'EUR', thresholds: [50, 80], filter: { services: ['EC2'] } },
+      D: { amount: 10 },
+    },
+  };
+
+  it('should take unset fields from the nearest ancestor that sets them', () => {
+    const eff = computeEffectiveBudgets(buildOuTree(simpleValidOus), config);
+
+    expect(eff.get('D')).toMatchObject({
+      amount: 10,
+      currency: 'EUR',
+      thresholds: [50, 80],
+      filter: { services: ['EC2'] },
+    });
+  });
+
+  it('should take unset fields from default with inheritFields false', () => {
+    const eff = computeEffectiveBudgets(buildOuTree(simpleValidOus), {
+      ...config,
+      inheritFields: false,
+    });
+
+    expect(eff.get('D')).toEqual({
+      mode: 'on',
+      amount: 10,
+      currency: 'USD',
+      thresholds: [100],
+    });
+  });
+
+  it.each<[string, Partial<OuBudgetConfigEntry>]>([
+    ['currency', { currency: 'EUR' }],
+    ['thresholds', { thresholds: [90] }],
+    ['filter', { filter: { services: ['Amazon Simple Storage Service'] } }],
+    ['costTypes', { costTypes: { includeCredit: true } }],
+    ['subscribers', { subscribers: [{ email: 'team@example.com' }] }],
+    [
+      'actions',
+      {
+        actions: [
+          {
+            threshold: 100,
+            applyIamPolicy: { policyArn: 'arn:aws:iam::aws:policy/AWSDenyAll', roles: ['dev'] },
+          },
+        ],
+      },
+    ],
+  ])('should lay the %s of an entry without an amount over the parent budget', (_, fields) => {
+    const eff = computeEffectiveBudgets(buildOuTree(simpleValidOus), {
+      default: { amount: 100, currency: 'USD', thresholds: [100] },
+      organizationalUnits: {
+        A: { amount: 1000 },
+        B: { amount: null, ...fields },
+      },
+    });
+
+    expect(eff.get('B')).toMatchObject({ amount: 1000, ...fields });
+    expect(eff.get('E')).toMatchObject({ amount: 1000, ...fields });
+    expect(eff.get('C')).not.toMatchObject(fields);
+  });
+
+  it('should lay the fields of a top-level entry without an amount over the default', () => {
+    const eff = computeEffectiveBudgets(buildOuTree(simpleValidOus), {
+      default: { amount: 100, currency: 'USD', thresholds: [100] },
+      organizationalUnits: {
+        A: { amount: null, subscribers: [{ email: 'team@example.com' }], thresholds: [80] },
+      },
+    });
+
+    expect(eff.get('A')).toMatchObject({
+      amount: 100,
+      currency: 'USD',
+      thresholds: [80],
+      subscribers: [{ email: 'team@example.com' }],
+    });
+    expect(eff.get('D')).toBe(eff.get('A'));
+  });
+});
+
+describe('computeEffectiveBudgets - relative amounts', () => {
+  const tree = buildOuTree(simpleValidOus);
+
+  it('should resolve percentages against the parent amount and cascade', () => {
+    const eff = computeEffectiveBudgets(tree, {
+      default: { amount: 1000, currency: 'USD', thresholds: [100] },
+      organizationalUnits: {
+        A: { amount: '50%' },
+        B: { amount: '33.3%' },
+        D: { amount: '10%' },
+      },
+    });
+
+    expect(eff.get('A')).toMatchObject({ amount: 500 });
+    expect(eff.get('B')).toMatchObject({ amount: 166.5 });
+    expect(eff.get('C')).toMatchObject({ amount: 500 });
+    expect(eff.get('D')).toMatchObject({ amount: 16.65 });
+    expect(eff.get('E')).toMatchObject({ amount: 166.5 });
+  });
+
+  it('should round to cents', () => {
+    const eff = computeEffectiveBudgets(tree, {
+      default: { amount: 99.99, currency: 'USD', thresholds: [100] },
+      organizationalUnits: { B: { amount: '50%' } },
+    });
+
+    expect(eff.get('B')).toMatchObject({ amount: 50 });
+  });
+
+  it('should reject relative amounts below an auto amount or for accounts', () => {
+    expect(() =>
+      computeEffectiveBudgets(tree, {
+        default: { amount: 100, currency: 'USD', thresholds: [100] },
+        organizationalUnits: {
+          A: { amount: 'auto', lookbackPeriods: 6 },
+          B: { amount: '50%' },
+        },
+      }),
+    ).toThrow('OU B: amount 50% needs a parent budget with a fixed amount');
+
+    expect(() =>
+      computeEffectiveBudgets(tree, {
+        default: { amount: 100, currency: 'USD', thresholds: [100] },
+        accounts: { '111122223333': { amount: '50%' } },
+      }),
+    ).toThrow('Account 111122223333: relative amounts are only valid for OUs');
+  });
+});
+
+describe('computeEffectiveBudgets - rules', () => {
+  const namedOus: OuNode[] = [
+    { id: 'R', parentId: null, name: 'Root' },
+    { id: 'S1', parentId: 'R', name: 'Sandbox-Alice' },
+    { id: 'S2', parentId: 'R', name: 'Sandbox-Bob', tags: { compliance: 'regulated' } },
+    { id: 'P', parentId: 'R', name: 'Prod', tags: { compliance: 'regulated' } },
+    { id: 'P1', parentId: 'P', name: 'Payments' },
+  ];
+  const tree = buildOuTree(namedOus);
+
+  it('should apply the first matching rule and report it', () => {
+    const eff = computeEffectiveBudgets(tree, {
+      default: { amount: 100, currency: 'USD', thresholds: [100] },
+      rules: [
+        { name: 'sandboxes', match: { ouName: 'Sandbox-*' }, budget: { amount: 10 } },
+        {
+          name: 'regulated',
+          match: { tags: { compliance: 'regulated' } },
+          budget: { amount: 500 },
+        },
+      ],
+    });
+
+    expect(eff.get('S1')).toMatchObject({ mode: 'on', amount: 10, rule: 'sandboxes' });
+    expect(eff.get('S2')).toMatchObject({ mode: 'on', amount: 10, rule: 'sandboxes' });
+    expect(eff.get('P')).toMatchObject({ mode: 'on', amount: 500, rule: 'regulated' });
+    // Children without a matching rule inherit, but were not matched themselves
+    expect(eff.get('P1')).toMatchObject({ mode: 'on', amount: 500 });
+    expect(eff.get('P1')).not.toHaveProperty('rule');
+    expect(eff.get('R')).toEqual({ mode: 'on', amount: 100, currency: 'USD', thresholds: [100] });
+  });
+
+  it('should prefer organizationalUnits entries over rules', () => {
+    const eff = computeEffectiveBudgets(tree, {
+      default: { amount: 100, currency: 'USD', thresholds: [100] },
+      organizationalUnits: { S1: { amount: 20 } },
+      rules: [{ match: { ouNameRegex: '^Sandbox-' }, budget: { off: true, amount: null } }],
+    });
+
+    expect(eff.get('S1')).toMatchObject({ mode: 'on', amount: 20 });
+    expect(eff.get('S1')).not.toHaveProperty('rule');
+    expect(eff.get('S2')).toEqual({ mode: 'off', rule: 'rules[0]' });
+  });
+
+  it('should apply rules to OUs with the amount: null entries of the init CLI', () => {
+    const config: BudgetConfig = {
+      default: { amount: 100, currency: 'USD', thresholds: [100] },
+      organizationalUnits: {
+        R: { amount: null },
+        S1: { amount: null },
+        S2: { amount: null },
+        P: { amount: null },
+        P1: { amount: null },
+      },
+      rules: [{ name: 'sandboxes', match: { ouName: 'Sandbox-*' }, budget: { amount: 10 } }],
+    };
+
+    expect(computeEffectiveBudgets(tree, config).get('S1')).toMatchObject({
+      amount: 10,
+      rule: 'sandboxes',
+    });
+    expect(computeOuBudgetAttachments(namedOus, config)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ ouId: 'S1', amount: 10 }),
+        expect.objectContaining({ ouId: 'S2', amount: 10 }),
+      ]),
+    );
+  });
+
+  it('should require all conditions of a selector to match', () => {
+    const eff = computeEffectiveBudgets(tree, {
+      default: { amount: 100, currency: 'USD', thresholds: [100] },
+      rules: [
+        {
+          name: 'regulated-sandboxes',
+          match: { ouName: 'Sandbox-*', tags: { compliance: 'regulated' } },
+          budget: { amount: 5 },
+        },
+      ],
+    });
+
+    expect(eff.get('S1')).toMatchObject({ amount: 100 });
+    expect(eff.get('S2')).toMatchObject({ amount: 5, rule: 'regulated-sandboxes' });
+    expect(eff.get('P')).toMatchObject({ amount: 100 });
+  });
+
+  it('should validate the budgets of rules', () => {
+    expect(() =>
+      computeEffectiveBudgets(tree, {
+        default: { amount: 100, currency: 'USD', thresholds: [100] },
+        rules: [{ name: 'broken', match: { ouName: '*' }, budget: { amount: 'auto' } }],
+      }),
+    ).toThrow('Rule broken: amount auto needs a positive integer lookbackPeriods');
+  });
+});
+
 describe('validateBudgetConfig', () => {
   it('should throw error for unknown OU IDs', () => {
     const tree = buildOuTree(simpleValidOus);
@@ -195,6 +1144,159 @@ describe('validateBudgetConfig', () => {
     }).toThrow(/Budget config for OU A is undefined/);
   });
 
+  it('should throw error for invalid account IDs', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD' },
+      accounts: {
+        'not-an-account': { amount: 100, currency: 'USD' },
+      },
+    };
+
+    expect(() => {
+      validateBudgetConfig(budgetConfig, Array.from(tree.byId.keys()));
+    }).toThrow(/Budget config refers to invalid account ID: not-an-account/);
+  });
+
+  it('should throw error for negative account budget amounts', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD' },
+      accounts: {
+        '111111111111': { amount: -5, currency: 'USD' },
+      },
+    };
+
+    expect(() => {
+      validateBudgetConfig(budgetConfig, Array.from(tree.byId.keys()));
+    }).toThrow(/Account 111111111111 has invalid budget amount: -5/);
+  });
+
+  it('should report all problems together', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        A: { amount: -50 },
+        X: { amount: 100 },
+      },
+      accounts: {
+        '111111111111': { amount: 'auto' },
+      },
+    };
+
+    expect(() => {
+      validateBudgetConfig(budgetConfig, Array.from(tree.byId.keys()));
+    }).toThrow(
+      'Invalid budget config (3 problems):\n' +
+        '  - OU A has invalid budget amount: -50\n' +
+        '  - Budget config refers to unknown OU: X\n' +
+        '  - Account 111111111111: amount auto needs a positive integer lookbackPeriods',
+    );
+  });
+
+  it('should reject invalid thresholds', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD', thresholds: [] },
+      organizationalUnits: {
+        A: {
+          amount: 100,
+          thresholds: [
+            0,
+            100,
+            80,
+            100,
+            { value: 1500 },
+            { value: 2000, thresholdType: 'ABSOLUTE_VALUE' },
+          ],
+        },
+        B: {
+          amount: 100,
+          thresholds: [50, 100, { value: 100, notificationType: 'FORECASTED' }],
+        },
+      },
+    };
+
+    expect(() => {
+      validateBudgetConfig(budgetConfig, Array.from(tree.byId.keys()));
+    }).toThrow(
+      'Invalid budget config (6 problems):\n' +
+        '  - Default has no thresholds, omit thresholds to use the default\n' +
+        '  - OU A has 6 thresholds, AWS Budgets allows at most 5 notifications per budget\n' +
+        '  - OU A threshold 0% must be greater than 0\n' +
+        '  - OU A ACTUAL PERCENTAGE thresholds are not in ascending order: 80% comes after 100%\n' +
+        '  - OU A has duplicate ACTUAL PERCENTAGE threshold 100%\n' +
+        '  - OU A threshold 1500% is above the maximum of 1000%',
+    );
+  });
+
+  it('should reject unknown and unsupported currencies', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'EUR' },
+      organizationalUnits: {
+        A: { amount: 100, currency: 'EURO' },
+        B: { amount: 100, budgets: { ec2: { amount: 10, currency: 'PLN' } } },
+      },
+    };
+
+    expect(() => {
+      validateBudgetConfig(budgetConfig, Array.from(tree.byId.keys()));
+    }).toThrow(
+      /OU A has invalid currency EURO, expected an ISO 4217 code like USD\n {2}- OU B budget ec2 has currency PLN, which AWS Budgets doesn't support/,
+    );
+  });
+
+  it('should check account overrides against the accounts of the organization', () => {
+    const tree = buildOuTree(simpleValidOus);
+    const account = (id: string, status: string, management = false): AccountNode => ({
+      id,
+      name: id,
+      email: `${id}@example.com`,
+      status,
+      parentId: 'A',
+      management,
+    });
+    const accounts = [
+      account('111111111111', 'ACTIVE', true),
+      account('222222222222', 'SUSPENDED'),
+      account('333333333333', 'ACTIVE'),
+      account('444444444444', 'SUSPENDED'),
+      account('666666666666', 'PENDING_CLOSURE'),
+    ];
+
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD' },
+      accounts: {
+        '111111111111': { amount: 10 },
+        '222222222222': { amount: 10 },
+        '333333333333': { amount: 10 },
+        '444444444444': { amount: null, off: true },
+        '555555555555': { amount: 10 },
+        '666666666666': { amount: 10 },
+      },
+    };
+
+    expect(() => {
+      validateBudgetConfig(budgetConfig, Array.from(tree.byId.keys()), accounts);
+    }).toThrow(
+      'Invalid budget config (4 problems):\n' +
+        "  - Account 111111111111 is the management account, which StackSets don't deploy to. " +
+        'Remove its entry or set off: true\n' +
+        '  - Account 222222222222 is SUSPENDED, StackSets only deploy to ACTIVE accounts. ' +
+        'Remove its entry or set off: true\n' +
+        '  - Budget config refers to unknown account: 555555555555\n' +
+        '  - Account 666666666666 is PENDING_CLOSURE, StackSets only deploy to ACTIVE accounts. ' +
+        'Remove its entry or set off: true',
+    );
+  });
+
   it('should pass for valid budget config', () => {
     const tree = buildOuTree(simpleValidOus);
 
@@ -261,6 +1363,53 @@ describe('computeHomogeneousSubtrees', () => {
     expect(homogeneousSubtrees).toEqual(new Set(['C', 'D', 'E']));
   });
 
+  it('should treat forecasted and actual thresholds as different', () => {
+    const tree = buildOuTree(simpleValidOus);
+
+    const budgets = new Map<string, EffectiveBudget>([
+      ['A', { mode: 'on', amount: 100, currency: 'USD', thresholds: [100] }],
+      ['B', { mode: 'on', amount: 100, currency: 'USD', thresholds: [{ value: 100 }] }],
+      ['C', { mode: 'on', amount: 100, currency: 'USD', thresholds: [100] }],
+      ['D', { mode: 'on', amount: 100, currency: 'USD', thresholds: [100] }],
+      [
+        'E',
+        {
+          mode: 'on',
+          amount: 100,
+          currency: 'USD',
+          thresholds: [{ value: 100, notificationType: 'FORECASTED' }],
+        },
+      ],
+    ]);
+
+    const homogeneousSubtrees = computeHomogeneousSubtrees(tree, budgets);
+
+    expect(homogeneousSubtrees).toEqual(new Set(['C', 'D', 'E']));
+  });
+
+  it('should treat percentage and absolute thresholds as different', () => {
+    const attachments = computeOuBudgetAttachments(simpleValidOus, {
+      default: { amount: 1000, currency: 'EUR', thresholds: [50] },
+      organizationalUnits: {
+        C: {
+          amount: 1000,
+          currency: 'EUR',
+          thresholds: [{ value: 50, thresholdType: 'ABSOLUTE_VALUE' }],
+        },
+      },
+    });
+
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'EUR', thresholds: [50] },
+      {
+        ouId: 'C',
+        amount: 1000,
+        currency: 'EUR',
+        thresholds: [{ value: 50, thresholdType: 'ABSOLUTE_VALUE' }],
+      },
+    ]);
+  });
+
   describe('homogeneous subtree visual examples', () => {
     /**
      * Example 1: Fully homogeneous subtree
@@ -471,3 +1620,59 @@ describe('computeOuBudgetAttachments', () => {
     );
   });
 });
+
+describe('account overrides', () => {
+  it('should resolve account budgets against the default', () => {
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD', thresholds: [80] },
+      accounts: {
+        '111111111111': { amount: 5000, currency: 'EUR' },
+        '222222222222': { amount: null, off: true },
+      },
+    };
+
+    const budgets = computeAccountBudgets(budgetConfig);
+
+    expect(budgets.get('111111111111')).toEqual({
+      mode: 'on',
+      amount: 5000,
+      currency: 'EUR',
+      thresholds: [80],
+    });
+    expect(budgets.get('222222222222')).toEqual({ mode: 'off' });
+  });
+
+  it('should exclude overridden accounts from OU attachments and add account attachments', () => {
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD' },
+      organizationalUnits: {
+        C: { amount: 500, currency: 'USD' },
+      },
+      accounts: {
+        '111111111111': { amount: 5000, currency: 'USD' },
+        '222222222222': { amount: null, off: true },
+      },
+    };
+
+    const attachments = computeOuBudgetAttachments(simpleValidOus, budgetConfig);
+
+    const excludedAccountIds = ['111111111111', '222222222222'];
+    expect(attachments).toEqual([
+      { ouId: 'B', amount: 1000, currency: 'USD', excludedAccountIds },
+      { ouId: 'C', amount: 500, currency: 'USD', excludedAccountIds },
+      { ouId: 'A', accountId: '111111111111', amount: 5000, currency: 'USD' },
+    ]);
+  });
+
+  it('should not change OU attachments when no accounts are configured', () => {
+    const budgetConfig: BudgetConfig = {
+      default: { amount: 1000, currency: 'USD' },
+      accounts: {},
+    };
+
+    const attachments = computeOuBudgetAttachments(simpleValidOus, budgetConfig);
+
+    expect(attachments).toEqual([{ ouId: 'A', amount: 1000, currency: 'USD' }]);
+    expect(attachments[0].excludedAccountIds).toBeUndefined();
+  });
+});
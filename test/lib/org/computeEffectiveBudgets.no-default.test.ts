@@ -142,6 +142,7 @@ describe('computeOuBudgetAttachments - no default', () => {
         'ou-a': { amount: 100, currency: 'EUR', thresholds: [50, 90] },
         'ou-b': { amount: 100, currency: 'EUR' },
       },
+      inheritFields: false,
     });
 
     const attachments = computeOuBudgetAttachments(ous, config);
@@ -151,4 +152,29 @@ describe('computeOuBudgetAttachments - no default', () => {
       { ouId: 'ou-c', amount: 100, currency: 'EUR', thresholds: [50, 90] },
     ]);
   });
+
+  test('a child with its own amount inherits thresholds and currency from its parent', () => {
+    // r
+    //  └─ ou-a (100 EUR, custom thresholds)
+    //      ├─ ou-b (200, inherits EUR and thresholds)
+    //      └─ ou-c
+    const ous = [
+      { id: 'ou-a', parentId: null },
+      { id: 'ou-b', parentId: 'ou-a' },
+      { id: 'ou-c', parentId: 'ou-a' },
+    ];
+    const config = makeConfig({
+      organizationalUnits: {
+        'ou-a': { amount: 100, currency: 'EUR', thresholds: [50, 90] },
+        'ou-b': { amount: 200 },
+      },
+    });
+
+    const attachments = computeOuBudgetAttachments(ous, config);
+
+    expect(attachments).toEqual([
+      { ouId: 'ou-b', amount: 200, currency: 'EUR', thresholds: [50, 90] },
+      { ouId: 'ou-c', amount: 100, currency: 'EUR', thresholds: [50, 90] },
+    ]);
+  });
 });
@@ -0,0 +1,101 @@
+import {
+  DescribeOrganizationCommand,
+  ListAccountsForParentCommand,
+  ListOrganizationalUnitsForParentCommand,
+  ListRootsCommand,
+  ListTagsForResourceCommand,
+  OrganizationsClient,
+} from '@aws-sdk/client-organizations';
+import { mockClient } from 'aws-sdk-client-mock';
+import { isInactiveAccount, loadOrgStructure } from '../../../lib/org/org-discovery';
+
+const orgMock = mockClient(OrganizationsClient);
+
+describe('loadOrgStructure', () => {
+  beforeEach(() => {
+    orgMock.reset();
+    orgMock
+      .on(DescribeOrganizationCommand)
+      .resolves({ Organization: { MasterAccountId: '111111111111' } });
+    orgMock.on(ListRootsCommand).resolves({ Roots: [{ Id: 'r-root', Name: 'Root' }] });
+    orgMock
+      .on(ListOrganizationalUnitsForParentCommand, { ParentId: 'r-root' })
+      .resolves({ OrganizationalUnits: [{ Id: 'ou-a', Name: 'Workloads' }] })
+      .on(ListOrganizationalUnitsForParentCommand, { ParentId: 'ou-a' })
+      .resolves({ OrganizationalUnits: [] });
+    orgMock
+      .on(ListAccountsForParentCommand, { ParentId: 'r-root' })
+      .resolves({
+        Accounts: [
+          { Id: '111111111111', Name: 'management', Email: 'm@example.com', State: 'ACTIVE' },
+        ],
+      })
+      .on(ListAccountsForParentCommand, { ParentId: 'ou-a' })
+      .resolves({
+        Accounts: [
+          { Id: '222222222222', Name: 'dev', Email: 'd@example.com', Status: 'SUSPENDED' },
+        ],
+        NextToken: 'next',
+      })
+      .on(ListAccountsForParentCommand, { ParentId: 'ou-a', NextToken: 'next' })
+      .resolves({
+        Accounts: [
+          { Id: '333333333333', Name: 'prod', Email: 'p@example.com', State: 'ACTIVE' },
+          { Id: '444444444444', Name: 'old', Email: 'o@example.com', State: 'CLOSED' },
+        ],
+      });
+    orgMock
+      .on(ListTagsForResourceCommand)
+      .resolves({ Tags: [] })
+      .on(ListTagsForResourceCommand, { ResourceId: '333333333333' })
+      .resolves({ Tags: [{ Key: 'env', Value: 'prod' }] });
+  });
+
+  it('discovers OUs and the accounts in the root and every OU', async () => {
+    const org = await loadOrgStructure();
+
+    expect(org.ous.map((ou) => ou.id)).toEqual(['r-root', 'ou-a']);
+    expect(org.accounts).toEqual([
+      {
+        id: '111111111111',
+        name: 'management',
+        email: 'm@example.com',
+        status: 'ACTIVE',
+        parentId: 'r-root',
+        tags: {},
+        management: true,
+      },
+      {
+        id: '222222222222',
+        name: 'dev',
+        email: 'd@example.com',
+        status: 'SUSPENDED',
+        parentId: 'ou-a',
+        tags: {},
+        management: false,
+      },
+      {
+        id: '333333333333',
+        name: 'prod',
+        email: 'p@example.com',
+        status: 'ACTIVE',
+        parentId: 'ou-a',
+        tags: { env: 'prod' },
+        management: false,
+      },
+      {
+        id: '444444444444',
+        name: 'old',
+        email: 'o@example.com',
+        status: 'CLOSED',
+        parentId: 'ou-a',
+        tags: {},
+        management: false,
+      },
+    ]);
+    expect(org.accounts?.filter(isInactiveAccount).map((account) => account.id)).toEqual([
+      '222222222222',
+      '444444444444',
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import log from 'loglevel';
+import { loadOrgStructure, type OrgStructure } from '../../../lib/org/org-discovery';
+import {
+  loadOrgStructureFrom,
+  readOrgSnapshot,
+  writeOrgSnapshot,
+} from '../../../lib/org/org-snapshot';
+
+jest.mock('../../../lib/org/org-discovery', () => ({
+  loadOrgStructure: jest.fn(),
+}));
+
+const mockedLoadOrgStructure = loadOrgStructure as jest.MockedFunction<typeof loadOrgStructure>;
+
+const org: OrgStructure = {
+  root: { id: 'r-root', name: 'Root' },
+  ous: [
+    { id: 'r-root', name: 'Root', parentId: null, tags: {} },
+    { id: 'ou-a', name: 'Workloads', parentId: 'r-root', tags: { team: 'platform' } },
+  ],
+  accounts: [
+    {
+      id: '111111111111',
+      name: 'dev',
+      email: 'dev@example.com',
+      status: 'SUSPENDED',
+      parentId: 'ou-a',
+      tags: {},
+      management: false,
+    },
+  ],
+};
+
+describe('organization snapshots', () => {
+  let dir: string;
+  let snapshotPath: string;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'org-snapshot-'));
+    snapshotPath = join(dir, 'org-snapshot.json');
+    warn = jest.spyOn(log, 'warn').mockImplementation(() => undefined);
+    mockedLoadOrgStructure.mockReset();
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes and reads the organization with its creation time', () => {
+    writeOrgSnapshot(snapshotPath, org, new Date('2026-01-01T00:00:00Z'));
+
+    expect(JSON.parse(readFileSync(snapshotPath, 'utf8'))).toEqual({
+      createdAt: '2026-01-01T00:00:00.000Z',
+      ...org,
+    });
+    expect(readOrgSnapshot(snapshotPath)).toEqual({
+      createdAt: '2026-01-01T00:00:00.000Z',
+      ...org,
+    });
+  });
+
+  it('rejects missing and invalid snapshots', () => {
+    expect(() => readOrgSnapshot(snapshotPath)).toThrow(
+      `Organization snapshot not found at ${snapshotPath}`,
+    );
+
+    writeFileSync(snapshotPath, '{', 'utf8');
+    expect(() => readOrgSnapshot(snapshotPath)).toThrow(
+      `Failed to parse organization snapshot JSON at ${snapshotPath}`,
+    );
+
+    writeFileSync(snapshotPath, JSON.stringify({ root: org.root, ous: org.ous }), 'utf8');
+    expect(() => readOrgSnapshot(snapshotPath)).toThrow(
+      `Invalid organization snapshot ${snapshotPath}: expected createdAt, root and ous`,
+    );
+  });
+
+  it('reads the organization from a snapshot instead of the Organizations API', async () => {
+    writeOrgSnapshot(snapshotPath, org, new Date('2026-01-01T00:00:00Z'));
+
+    await expect(
+      loadOrgStructureFrom({ snapshotPath, now: new Date('2026-01-03T00:00:00Z') }),
+    ).resolves.toEqual(org);
+    expect(mockedLoadOrgStructure).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('warns about snapshots older than the maximum age', async () => {
+    writeOrgSnapshot(snapshotPath, org, new Date('2026-01-01T00:00:00Z'));
+
+    await loadOrgStructureFrom({
+      snapshotPath,
+      maxAgeDays: 1,
+      now: new Date('2026-01-03T12:00:00Z'),
+    });
+
+    expect(warn).toHaveBeenCalledWith(
+      `Organization snapshot ${snapshotPath} is 2 days old (created 2026-01-01T00:00:00.000Z), ` +
+        'older than 1 days. Run "npx budget-alerts-init-config snapshot" to refresh it.',
+    );
+  });
+
+  it('queries the Organizations API without a snapshot', async () => {
+    mockedLoadOrgStructure.mockResolvedValue(org);
+
+    await expect(loadOrgStructureFrom()).resolves.toBe(org);
+  });
+});